@@ -63,6 +63,8 @@ public final class WorkoutPlanObject: SharedObject {
 
 public class ReactNativeWorkoutsModule: Module {
     private let healthStore = HKHealthStore()
+    // Last status reported to JS, so `onAuthorizationChange` only fires on actual changes.
+    private var lastAuthorizationStatus: String?
 
     public func definition() -> ModuleDefinition {
         Name("ReactNativeWorkouts")
@@ -77,6 +79,17 @@ public class ReactNativeWorkoutsModule: Module {
 
         Events("onAuthorizationChange")
 
+        // The user may have changed access in Settings while the app was in the background.
+        OnAppEntersForeground {
+            guard #available(iOS 17.0, *) else {
+                return
+            }
+            Task {
+                let status = await WorkoutScheduler.shared.authorizationState
+                self.updateAuthorizationStatus(self.authorizationStateToString(status))
+            }
+        }
+
         let workoutKitUnavailableMessage = "WorkoutKit requires iOS 17+. This API is unavailable on the current OS version."
 
         // MARK: - Shared Object API (WorkoutPlan)
@@ -112,8 +125,9 @@ public class ReactNativeWorkoutsModule: Module {
                 throw Exception(name: "Unavailable", description: workoutKitUnavailableMessage)
             }
 
-            let status = await WorkoutScheduler.shared.authorizationState
-            return self.authorizationStateToString(status)
+            let status = self.authorizationStateToString(await WorkoutScheduler.shared.authorizationState)
+            self.updateAuthorizationStatus(status)
+            return status
         }
 
         AsyncFunction("requestAuthorization") { () async throws -> String in
@@ -121,6 +135,12 @@ public class ReactNativeWorkoutsModule: Module {
                 throw Exception(name: "Unavailable", description: workoutKitUnavailableMessage)
             }
 
+            // Remember the status before prompting, so a change is reported even if this is the
+            // first authorization call.
+            if self.lastAuthorizationStatus == nil {
+                self.lastAuthorizationStatus = self.authorizationStateToString(await WorkoutScheduler.shared.authorizationState)
+            }
+
             // Request HealthKit authorization explicitly so:
             // - iOS shows the permission prompt
             // - the app appears under Health → Apps
@@ -131,8 +151,9 @@ public class ReactNativeWorkoutsModule: Module {
                 try await self.healthStore.requestAuthorization(toShare: [workoutType], read: [workoutType])
             }
 
-            let status = await WorkoutScheduler.shared.requestAuthorization()
-            return self.authorizationStateToString(status)
+            let status = self.authorizationStateToString(await WorkoutScheduler.shared.requestAuthorization())
+            self.updateAuthorizationStatus(status)
+            return status
         }
 
         // MARK: - Workout Validation
@@ -338,7 +359,9 @@ public class ReactNativeWorkoutsModule: Module {
             }
         }
 
-        AsyncFunction("removeScheduledWorkout") { (id: String) async throws -> Bool in
+        // The same plan can be scheduled on several dates (recurring schedules); pass `date` to
+        // remove one specific occurrence instead of the first one found.
+        AsyncFunction("removeScheduledWorkout") { (id: String, date: [String: Any]?) async throws -> Bool in
             guard #available(iOS 17.0, *) else {
                 throw Exception(name: "Unavailable", description: workoutKitUnavailableMessage)
             }
@@ -347,8 +370,13 @@ public class ReactNativeWorkoutsModule: Module {
                 throw Exception(name: "InvalidID", description: "Invalid workout ID format")
             }
 
+            let occurrence = date.map { self.parseDateComponents(from: $0) }
             let workouts = await WorkoutScheduler.shared.scheduledWorkouts
-            guard let workout = workouts.first(where: { $0.plan.id == uuid }) else {
+            guard let workout = workouts.first(where: { scheduled in
+                guard scheduled.plan.id == uuid else { return false }
+                guard let occurrence else { return true }
+                return self.isSameScheduledDate(scheduled.date, occurrence)
+            }) else {
                 throw Exception(name: "NotFound", description: "Workout not found")
             }
 
@@ -518,6 +546,16 @@ public class ReactNativeWorkoutsModule: Module {
 
     // MARK: - Helper Methods
 
+    // Records `status` and emits `onAuthorizationChange` if it differs from the last known one.
+    // The first status seen is only recorded: there is nothing to compare it with.
+    private func updateAuthorizationStatus(_ status: String) {
+        let previous = lastAuthorizationStatus
+        lastAuthorizationStatus = status
+        if let previous, previous != status {
+            sendEvent("onAuthorizationChange", ["status": status])
+        }
+    }
+
     @available(iOS 17.0, *)
     private func authorizationStateToString(_ state: WorkoutScheduler.AuthorizationState) -> String {
         switch state {
@@ -690,6 +728,23 @@ public class ReactNativeWorkoutsModule: Module {
             throw Exception(name: "InvalidTarget", description: "Target type is required")
         }
 
+        if config["zone"] != nil {
+            throw Exception(name: "InvalidTarget", description: "Pace zone targets must be resolved (resolvePacerTarget) before creating a plan")
+        }
+
+        if type.lowercased() == "distancetime" {
+            // Already the distance/time pair PacerWorkout wants; pass it straight through.
+            guard let distance = config["distance"] as? Double, distance > 0 else {
+                throw Exception(name: "InvalidTarget", description: "Target distance must be > 0")
+            }
+            guard let time = config["time"] as? Double, time > 0 else {
+                throw Exception(name: "InvalidTarget", description: "Target time must be > 0")
+            }
+            let distanceUnit = self.parseDistanceUnit(config["distanceUnit"] as? String ?? "meters")
+            let timeUnit = self.parseTimeUnit(config["timeUnit"] as? String ?? "seconds")
+            return (Measurement(value: distance, unit: distanceUnit), Measurement(value: time, unit: timeUnit))
+        }
+
         guard let value = config["value"] as? Double else {
             throw Exception(name: "InvalidTarget", description: "Target value is required")
         }
@@ -773,6 +828,9 @@ public class ReactNativeWorkoutsModule: Module {
             }
 
         case "pace":
+            if config["zone"] != nil {
+                throw Exception(name: "InvalidAlert", description: "Pace zone alerts must be resolved (resolvePaceAlerts) before creating a plan")
+            }
             guard let min = config["min"] as? Double, let max = config["max"] as? Double else {
                 return nil
             }
@@ -795,6 +853,9 @@ public class ReactNativeWorkoutsModule: Module {
             return CadenceRangeAlert.cadence(min...max)
 
         case "power":
+            if config["minPercentFtp"] != nil || config["maxPercentFtp"] != nil || config["zone"] != nil {
+                throw Exception(name: "InvalidAlert", description: "Relative power alerts must be resolved to watts (resolvePowerAlerts) before creating a plan")
+            }
             guard let min = config["min"] as? Double, let max = config["max"] as? Double else {
                 return nil
             }
@@ -975,6 +1036,15 @@ public class ReactNativeWorkoutsModule: Module {
         return components
     }
 
+    // Compares only the fields the JS side sends; WorkoutKit may fill in others (calendar, second).
+    private func isSameScheduledDate(_ lhs: DateComponents, _ rhs: DateComponents) -> Bool {
+        return lhs.year == rhs.year
+            && lhs.month == rhs.month
+            && lhs.day == rhs.day
+            && lhs.hour == rhs.hour
+            && lhs.minute == rhs.minute
+    }
+
     private func dateComponentsToDict(_ components: DateComponents) -> [String: Any] {
         var dict: [String: Any] = [:]
 
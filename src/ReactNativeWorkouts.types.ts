@@ -1,3 +1,5 @@
+import type { SharedObject } from "expo";
+
 /**
  * WorkoutKit authorization state as seen by Apple's `WorkoutScheduler`.
  */
@@ -8,10 +10,6 @@ export type AuthorizationStatus =
   | "denied"
   | "unknown";
 
-// Shared Objects
-
-import type { SharedObject } from "expo";
-
 // Activity Types
 
 /**
@@ -137,6 +135,34 @@ export interface PaceAlert {
   unit?: PaceUnit;
 }
 
+/**
+ * Daniels training pace zones: Easy, Marathon, Threshold, Interval, Repetition.
+ */
+export type PaceZoneName =
+  | "easy"
+  | "marathon"
+  | "threshold"
+  | "interval"
+  | "repetition";
+
+/**
+ * Pace relative to the runner's fitness. Resolve with `resolvePaceAlerts()` before creating a
+ * plan.
+ */
+export interface PaceZoneAlert {
+  type: "pace";
+  zone: PaceZoneName;
+  /**
+   * Builds the range as the middle of the zone ± this many seconds per `unit`, e.g. `5` for
+   * "threshold pace ±5s/km". Without it the whole zone is used.
+   */
+  offsetSeconds?: number;
+  /**
+   * Unit of the resolved `PaceAlert` (and of `offsetSeconds`). Defaults to the zones' unit.
+   */
+  unit?: PaceUnit;
+}
+
 export interface SpeedAlert {
   type: "speed";
   min: number;
@@ -156,13 +182,46 @@ export interface PowerAlert {
   max: number;
 }
 
+/**
+ * Power range relative to the athlete's FTP. Resolve to watts with `resolvePowerAlerts()`
+ * before creating a plan.
+ */
+export interface PercentFtpPowerAlert {
+  type: "power";
+  minPercentFtp: number;
+  maxPercentFtp: number;
+}
+
+/**
+ * Coggan power zones 1–7.
+ */
+export type PowerZoneName =
+  | "activeRecovery"
+  | "endurance"
+  | "tempo"
+  | "threshold"
+  | "vo2Max"
+  | "anaerobicCapacity"
+  | "neuromuscular";
+
+/**
+ * Named Coggan power zone. Resolve to watts with `resolvePowerAlerts()` before creating a plan.
+ */
+export interface PowerZoneAlert {
+  type: "power";
+  zone: PowerZoneName;
+}
+
 export type WorkoutAlert =
   | HeartRateZoneAlert
   | HeartRateRangeAlert
   | PaceAlert
+  | PaceZoneAlert
   | SpeedAlert
   | CadenceAlert
-  | PowerAlert;
+  | PowerAlert
+  | PercentFtpPowerAlert
+  | PowerZoneAlert;
 
 // Workout Steps
 
@@ -220,6 +279,35 @@ export interface PacerTarget {
   unit?: SpeedUnit | PaceUnit;
 }
 
+/**
+ * Cover `distance` in `time`, e.g. 5 km in 24:30 (`time: 24.5, timeUnit: "minutes"`). Passed
+ * to WorkoutKit's `PacerWorkout` as-is; see `getPacerTargetRates()` for the implied pace and
+ * speed.
+ */
+export interface DistanceTimePacerTarget {
+  type: "distanceTime";
+  distance: number;
+  /**
+   * Defaults to meters.
+   */
+  distanceUnit?: DistanceUnit;
+  time: number;
+  /**
+   * Defaults to seconds.
+   */
+  timeUnit?: TimeUnit;
+}
+
+/**
+ * Pacer target at the middle of a pace zone. Resolve with `resolvePacerTarget()` before
+ * creating a plan.
+ */
+export interface PaceZoneTarget {
+  type: "pace";
+  zone: PaceZoneName;
+  unit?: PaceUnit;
+}
+
 export interface PacerWorkoutConfig {
   activityType: ActivityType;
   locationType?: LocationType;
@@ -227,7 +315,7 @@ export interface PacerWorkoutConfig {
    * Optional label for your app/back-end. WorkoutKit may not display this for all workout kinds.
    */
   displayName?: string;
-  target: PacerTarget;
+  target: PacerTarget | DistanceTimePacerTarget | PaceZoneTarget;
 }
 
 export type SwimBikeRunActivityType = "swimming" | "cycling" | "running";
@@ -252,6 +340,39 @@ export interface SwimBikeRunWorkoutConfig {
   activities: SwimBikeRunActivityConfig[];
 }
 
+// Athlete
+
+/**
+ * Thresholds used to turn relative targets (% FTP, % threshold HR/pace, zones) into the
+ * absolute alert ranges WorkoutKit understands.
+ */
+export interface AthleteProfile {
+  /**
+   * Functional threshold power in watts.
+   */
+  ftp?: number;
+  /**
+   * Lactate threshold heart rate in bpm.
+   */
+  thresholdHeartRate?: number;
+  maxHeartRate?: number;
+  /**
+   * Threshold pace, in minutes per km (default) or mile.
+   */
+  thresholdPace?: { value: number; unit?: PaceUnit };
+}
+
+// File Formats
+
+export interface WorkoutFileWarning {
+  /**
+   * Where the lossy conversion happened: a location in the source file when importing
+   * (e.g. `workout[3]`), or a config JSON path when exporting (e.g. `blocks[0].steps[1]`).
+   */
+  path: string;
+  message: string;
+}
+
 // Date Components
 
 export interface DateComponents {
@@ -277,6 +398,21 @@ export interface ScheduleResult {
 export interface ScheduledWorkout {
   id: string;
   date: DateComponents;
+  /**
+   * The fields below come from the local metadata registry (see
+   * `configureWorkoutMetadataStorage`) and are missing for workouts it has no record of.
+   */
+  kind?: WorkoutPlanKind;
+  displayName?: string;
+  activityType?: ActivityType;
+  /**
+   * Config the workout was scheduled from.
+   */
+  config?: unknown;
+  /**
+   * ID of the `TrainingProgram` that scheduled this workout (see `scheduleProgram`).
+   */
+  programId?: string;
 }
 
 // Module Events
@@ -291,6 +427,15 @@ export type ReactNativeWorkoutsModuleEvents = {
 
 export type WorkoutPlanKind = "custom" | "singleGoal" | "pacer" | "swimBikeRun";
 
+/**
+ * A workout config tagged with its `kind`, i.e. what a `WorkoutPlan` is created from.
+ */
+export type WorkoutPlanDefinition =
+  | { kind: "custom"; config: CustomWorkoutConfig }
+  | { kind: "singleGoal"; config: SingleGoalWorkoutConfig }
+  | { kind: "pacer"; config: PacerWorkoutConfig }
+  | { kind: "swimBikeRun"; config: SwimBikeRunWorkoutConfig };
+
 export interface WorkoutPlanExport {
   /**
    * UUID of the underlying `WorkoutPlan` instance.
@@ -299,6 +444,17 @@ export interface WorkoutPlanExport {
    */
   id: string;
   kind: WorkoutPlanKind;
+  /**
+   * Version of the export schema (`WORKOUT_EXPORT_SCHEMA_VERSION` when produced by this
+   * library). Missing on payloads exported before versioning, which are only accepted with
+   * `allowUnversioned` (see `WorkoutExportOptions`).
+   */
+  schemaVersion?: number;
+  /**
+   * Content hash of the other fields, checked by `verifyWorkoutExport` to detect modified or
+   * truncated payloads.
+   */
+  checksum?: string;
   /**
    * The original config used to create the plan.
    *
@@ -307,7 +463,7 @@ export interface WorkoutPlanExport {
   config: unknown;
 }
 
-export declare class WorkoutPlan extends SharedObject<{}> {
+export declare class WorkoutPlan extends SharedObject {
   /**
    * UUID of this plan instance.
    */
@@ -330,7 +486,8 @@ export declare class WorkoutPlan extends SharedObject<{}> {
   scheduleAndSync(date: DateComponents): Promise<ScheduleResult>;
 
   /**
-   * Returns `{ id, kind, config }` for storing/sharing the plan in your own backend.
+   * Returns `{ id, kind, schemaVersion, checksum, config }` for storing/sharing the plan in your
+   * own backend.
    *
    * This does NOT export a system-importable file — it's a JSON payload you can use to recreate
    * the plan via the `create*WorkoutPlan(...)` factories.
@@ -13,8 +13,17 @@ import type {
   SingleGoalWorkoutConfig,
   SwimBikeRunWorkoutConfig,
   WorkoutPlan,
+  WorkoutPlanExport,
+  WorkoutPlanKind,
   WorkoutValidationResult,
 } from "./ReactNativeWorkouts.types";
+import { toWorkoutsError } from "./errors";
+import { stampWorkoutExport } from "./exportSchema";
+import {
+  clearScheduledWorkoutMetadata,
+  joinScheduledWorkoutMetadata,
+  recordScheduledWorkout,
+} from "./scheduledMetadata";
 
 declare class ReactNativeWorkoutsModule
   extends NativeModule<ReactNativeWorkoutsModuleEvents> {
@@ -137,8 +146,11 @@ declare class ReactNativeWorkoutsModule
   getScheduledWorkouts(): Promise<ScheduledWorkout[]>;
   /**
    * Removes a scheduled workout by ID.
+   *
+   * A plan scheduled on several dates (e.g. with `scheduleRecurring`) has one entry per date, all
+   * with the plan's ID; pass `date` to remove that occurrence rather than the first one found.
    */
-  removeScheduledWorkout(id: string): Promise<boolean>;
+  removeScheduledWorkout(id: string, date?: DateComponents): Promise<boolean>;
   /**
    * Removes all scheduled workouts created by this app.
    */
@@ -150,6 +162,123 @@ declare class ReactNativeWorkoutsModule
   getSupportedLocationTypes(): LocationType[];
 }
 
-export default requireNativeModule<ReactNativeWorkoutsModule>(
+const nativeModule = requireNativeModule<ReactNativeWorkoutsModule>(
   "ReactNativeWorkouts",
 );
+
+const PLAN_METHODS = ["preview", "scheduleAndSync", "export"] as const;
+
+// Runs `call` and converts a synchronous throw or a rejection into a `WorkoutsError`.
+function withWorkoutsErrors<T>(call: () => T): T {
+  let result: T;
+  try {
+    result = call();
+  } catch (e) {
+    throw toWorkoutsError(e);
+  }
+  if (result instanceof Promise) {
+    return result.catch((e: unknown) => {
+      throw toWorkoutsError(e);
+    }) as T;
+  }
+  return result;
+}
+
+// Shadows the plan's native methods with own properties that map errors the same way. Native
+// exports are `{ id, kind, config }`; the schema version and checksum are added here, and
+// successful schedules are recorded in the metadata registry.
+function wrapPlan(plan: WorkoutPlan): WorkoutPlan {
+  for (const name of PLAN_METHODS) {
+    const method = plan[name] as (...args: unknown[]) => unknown;
+    Object.defineProperty(plan, name, {
+      configurable: true,
+      value: (...args: unknown[]) => {
+        const result = withWorkoutsErrors(() => method.apply(plan, args));
+        switch (name) {
+          case "export":
+            return stampWorkoutExport(result as WorkoutPlanExport);
+          case "scheduleAndSync":
+            return (result as Promise<ScheduleResult>).then(
+              async (scheduled) => {
+                await recordScheduledWorkout(
+                  plan.export(),
+                  args[0] as DateComponents,
+                );
+                return scheduled;
+              },
+            );
+          default:
+            return result;
+        }
+      },
+    });
+  }
+  return plan;
+}
+
+// The legacy `schedule*Workout(config, date)` methods have no plan to export; record the config.
+function recordSchedule(kind: WorkoutPlanKind) {
+  return async (result: unknown, [config, date]: unknown[]) => {
+    const { id } = result as ScheduleResult;
+    await recordScheduledWorkout(
+      stampWorkoutExport({ id, kind, config }),
+      date as DateComponents,
+    );
+    return result;
+  };
+}
+
+// JS-side work done after a native method resolves.
+const AFTER: Record<
+  string,
+  (result: unknown, args: unknown[]) => unknown | Promise<unknown>
+> = {
+  createCustomWorkoutPlan: (plan) => wrapPlan(plan as WorkoutPlan),
+  createSingleGoalWorkoutPlan: (plan) => wrapPlan(plan as WorkoutPlan),
+  createPacerWorkoutPlan: (plan) => wrapPlan(plan as WorkoutPlan),
+  createSwimBikeRunWorkoutPlan: (plan) => wrapPlan(plan as WorkoutPlan),
+  scheduleWorkout: recordSchedule("custom"),
+  scheduleSingleGoalWorkout: recordSchedule("singleGoal"),
+  schedulePacerWorkout: recordSchedule("pacer"),
+  getScheduledWorkouts: (workouts) =>
+    joinScheduledWorkoutMetadata(workouts as ScheduledWorkout[]),
+  removeAllScheduledWorkouts: async (result) => {
+    await clearScheduledWorkoutMetadata();
+    return result;
+  },
+};
+
+const wrappedMethods = new Map<PropertyKey, (...args: unknown[]) => unknown>();
+
+// Every method rejects (or throws) with a `WorkoutsError` instead of the raw native exception.
+// Wrappers are cached so `ReactNativeWorkouts.scheduleWorkout` keeps a stable identity (hooks
+// pass methods unbound and use them as effect dependencies).
+export default new Proxy(nativeModule, {
+  get(target, property) {
+    const value = Reflect.get(target, property, target);
+    if (typeof value !== "function" || property === "constructor") {
+      return value;
+    }
+    if (property in NativeModule.prototype) {
+      return value.bind(target);
+    }
+    let wrapped = wrappedMethods.get(property);
+    if (!wrapped) {
+      const after =
+        typeof property === "string" &&
+        Object.prototype.hasOwnProperty.call(AFTER, property)
+          ? AFTER[property]
+          : undefined;
+      wrapped = (...args: unknown[]) => {
+        const result = withWorkoutsErrors(() => value.apply(target, args));
+        return after
+          ? (result as Promise<unknown>).then((resolved) =>
+              after(resolved, args),
+            )
+          : result;
+      };
+      wrappedMethods.set(property, wrapped);
+    }
+    return wrapped;
+  },
+});
@@ -0,0 +1,2 @@
+// WorkoutKit is iOS-only: see UnavailableWorkoutsModule.
+export { default } from "./UnavailableWorkoutsModule";
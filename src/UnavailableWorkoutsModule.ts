@@ -0,0 +1,109 @@
+import { NativeModule } from "expo";
+import { Platform } from "react-native";
+
+import type {
+  ActivityType,
+  AuthorizationStatus,
+  LocationType,
+  ReactNativeWorkoutsModuleEvents,
+  ScheduleResult,
+  ScheduledWorkout,
+  WorkoutPlan,
+  WorkoutValidationResult,
+} from "./ReactNativeWorkouts.types";
+import type ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
+import { WorkoutsUnavailableError } from "./errors";
+
+function unavailable(): Promise<never> {
+  return Promise.reject(
+    new WorkoutsUnavailableError(
+      `WorkoutKit is not available on ${Platform.OS}`,
+    ),
+  );
+}
+
+// Stand-in for the native module on platforms without WorkoutKit, so importing the package
+// doesn't throw. Read-only calls answer "nothing here"; anything that would create, preview or
+// schedule a workout rejects with `WorkoutsUnavailableError`.
+class UnavailableWorkoutsModule extends NativeModule<ReactNativeWorkoutsModuleEvents> {
+  readonly isAvailable = false;
+
+  async getAuthorizationStatus(): Promise<AuthorizationStatus> {
+    return "unknown";
+  }
+  async requestAuthorization(): Promise<AuthorizationStatus> {
+    return "unknown";
+  }
+
+  async supportsGoal(): Promise<boolean> {
+    return false;
+  }
+
+  createCustomWorkout(): Promise<WorkoutValidationResult> {
+    return unavailable();
+  }
+  previewWorkout(): Promise<boolean> {
+    return unavailable();
+  }
+  scheduleWorkout(): Promise<ScheduleResult> {
+    return unavailable();
+  }
+
+  createSingleGoalWorkout(): Promise<WorkoutValidationResult> {
+    return unavailable();
+  }
+  previewSingleGoalWorkout(): Promise<boolean> {
+    return unavailable();
+  }
+  scheduleSingleGoalWorkout(): Promise<ScheduleResult> {
+    return unavailable();
+  }
+
+  createPacerWorkout(): Promise<WorkoutValidationResult> {
+    return unavailable();
+  }
+  previewPacerWorkout(): Promise<boolean> {
+    return unavailable();
+  }
+  schedulePacerWorkout(): Promise<ScheduleResult> {
+    return unavailable();
+  }
+
+  createCustomWorkoutPlan(): Promise<WorkoutPlan> {
+    return unavailable();
+  }
+  createSingleGoalWorkoutPlan(): Promise<WorkoutPlan> {
+    return unavailable();
+  }
+  createPacerWorkoutPlan(): Promise<WorkoutPlan> {
+    return unavailable();
+  }
+  createSwimBikeRunWorkoutPlan(): Promise<WorkoutPlan> {
+    return unavailable();
+  }
+
+  async getScheduledWorkouts(): Promise<ScheduledWorkout[]> {
+    return [];
+  }
+  removeScheduledWorkout(): Promise<boolean> {
+    return unavailable();
+  }
+  removeAllScheduledWorkouts(): Promise<boolean> {
+    return unavailable();
+  }
+
+  getSupportedActivityTypes(): ActivityType[] {
+    return [];
+  }
+  getSupportedGoalTypes(): string[] {
+    return [];
+  }
+  getSupportedLocationTypes(): LocationType[] {
+    return [];
+  }
+}
+
+const unavailableModule: typeof ReactNativeWorkouts =
+  new UnavailableWorkoutsModule();
+
+export default unavailableModule;
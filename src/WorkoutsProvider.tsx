@@ -0,0 +1,233 @@
+import {
+  type ReactNode,
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+} from "react";
+
+import type {
+  AuthorizationStatus,
+  DateComponents,
+  ScheduledWorkout,
+  ScheduleResult,
+  WorkoutPlan,
+} from "./ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
+import { isSameScheduledDate } from "./dates";
+
+export interface WorkoutsSnapshot {
+  /**
+   * `null` until the first `getScheduledWorkouts()` resolves.
+   */
+  workouts: ScheduledWorkout[] | null;
+  /**
+   * `null` until the first `getAuthorizationStatus()` resolves.
+   */
+  authorizationStatus: AuthorizationStatus | null;
+}
+
+/**
+ * Shared cache behind `WorkoutsProvider`. Loads are deduplicated: callers that ask while a
+ * request is in flight get the same promise.
+ */
+export interface WorkoutsStore {
+  getSnapshot(): WorkoutsSnapshot;
+  subscribe(listener: () => void): () => void;
+  loadWorkouts(): Promise<ScheduledWorkout[]>;
+  loadAuthorizationStatus(): Promise<AuthorizationStatus>;
+  requestAuthorization(): Promise<AuthorizationStatus>;
+  /**
+   * The mutations below update `workouts` right away, then confirm against native. A failed call
+   * rolls its change back; they resolve once native succeeded, even if the refresh after fails.
+   */
+  remove(id: string, date?: DateComponents): Promise<void>;
+  removeAll(): Promise<void>;
+  schedule(plan: WorkoutPlan, date: DateComponents): Promise<ScheduleResult>;
+  /**
+   * Subscribes to `onAuthorizationChange`; returns the unsubscribe function.
+   */
+  attach(): () => void;
+}
+
+function dedupe<T>(run: () => Promise<T>): () => Promise<T> {
+  let pending: Promise<T> | null = null;
+  return () =>
+    (pending ??= run().finally(() => {
+      pending = null;
+    }));
+}
+
+export function createWorkoutsStore(): WorkoutsStore {
+  let snapshot: WorkoutsSnapshot = {
+    workouts: null,
+    authorizationStatus: null,
+  };
+  const listeners = new Set<() => void>();
+  const update = (next: Partial<WorkoutsSnapshot>) => {
+    snapshot = { ...snapshot, ...next };
+    listeners.forEach((listener) => listener());
+  };
+
+  // Bumped on every local change to `workouts`, so a load that started before it can't bring
+  // back a workout that was just removed.
+  let version = 0;
+  let workoutsRequest: {
+    version: number;
+    promise: Promise<ScheduledWorkout[]>;
+  } | null = null;
+
+  const loadWorkouts = (): Promise<ScheduledWorkout[]> => {
+    if (workoutsRequest?.version === version) {
+      return workoutsRequest.promise;
+    }
+    const requestVersion = version;
+    const promise = ReactNativeWorkouts.getScheduledWorkouts()
+      .then((workouts) => {
+        if (requestVersion !== version) return loadWorkouts();
+        update({ workouts });
+        return workouts;
+      })
+      .finally(() => {
+        if (workoutsRequest?.promise === promise) workoutsRequest = null;
+      });
+    workoutsRequest = { version: requestVersion, promise };
+    return promise;
+  };
+
+  const mutate = async <T,>(
+    optimistic: (workouts: ScheduledWorkout[]) => ScheduledWorkout[],
+    run: () => Promise<T>,
+  ): Promise<T> => {
+    const previous = snapshot.workouts;
+    const next = previous && optimistic(previous);
+    version += 1;
+    if (next) update({ workouts: next });
+
+    let result: T;
+    try {
+      result = await run();
+    } catch (e) {
+      // Only undo our own change; if something else updated the list meanwhile, reload instead.
+      version += 1;
+      if (next && snapshot.workouts === next) {
+        update({ workouts: previous });
+      } else {
+        loadWorkouts().catch(() => {});
+      }
+      throw e;
+    }
+    // The native call succeeded, so the mutation did too: a failed refresh must not make callers
+    // think otherwise (and e.g. schedule the workout again). The list catches up on the next load.
+    await loadWorkouts().catch(() => {});
+    return result;
+  };
+
+  const setAuthorizationStatus = (status: AuthorizationStatus) => {
+    update({ authorizationStatus: status });
+    return status;
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    loadWorkouts,
+    loadAuthorizationStatus: dedupe(() =>
+      ReactNativeWorkouts.getAuthorizationStatus().then(setAuthorizationStatus),
+    ),
+    requestAuthorization: dedupe(() =>
+      ReactNativeWorkouts.requestAuthorization().then(setAuthorizationStatus),
+    ),
+    remove: (id, date) =>
+      mutate(
+        (workouts) => {
+          // Same rule as native: the first workout with this ID (on `date`, when given).
+          const index = workouts.findIndex(
+            (workout) =>
+              workout.id === id &&
+              (date === undefined || isSameScheduledDate(workout.date, date)),
+          );
+          return index === -1
+            ? workouts
+            : [...workouts.slice(0, index), ...workouts.slice(index + 1)];
+        },
+        async () => {
+          await ReactNativeWorkouts.removeScheduledWorkout(id, date);
+        },
+      ),
+    removeAll: () =>
+      mutate(
+        () => [],
+        async () => {
+          await ReactNativeWorkouts.removeAllScheduledWorkouts();
+        },
+      ),
+    schedule: (plan, date) =>
+      mutate(
+        (workouts) => [...workouts, { id: plan.id, date, kind: plan.kind }],
+        () => plan.scheduleAndSync(date),
+      ),
+    attach() {
+      const subscription = ReactNativeWorkouts.addListener(
+        "onAuthorizationChange",
+        (event) => setAuthorizationStatus(event.status),
+      );
+      return () => subscription.remove();
+    },
+  };
+}
+
+const WorkoutsContext = createContext<WorkoutsStore | null>(null);
+
+const EMPTY_SNAPSHOT: WorkoutsSnapshot = {
+  workouts: null,
+  authorizationStatus: null,
+};
+const subscribeNothing = () => () => {};
+const getEmptySnapshot = () => EMPTY_SNAPSHOT;
+
+/**
+ * The store of the closest `WorkoutsProvider`, or `null` outside of one.
+ */
+export function useWorkoutsStore(): WorkoutsStore | null {
+  return useContext(WorkoutsContext);
+}
+
+/**
+ * Subscribes to `store` (an empty snapshot when `store` is `null`).
+ */
+export function useWorkoutsSnapshot(
+  store: WorkoutsStore | null,
+): WorkoutsSnapshot {
+  return useSyncExternalStore(
+    store ? store.subscribe : subscribeNothing,
+    store ? store.getSnapshot : getEmptySnapshot,
+  );
+}
+
+export interface WorkoutsProviderProps {
+  children?: ReactNode;
+}
+
+/**
+ * Shares one cache of scheduled workouts and authorization status between every
+ * `useScheduledWorkouts`, `useWorkoutAuthorization` and `useTrainingProgram` below it, so a
+ * `remove()` in one component updates the lists in all the others.
+ */
+export function WorkoutsProvider({ children }: WorkoutsProviderProps) {
+  const [store] = useState(createWorkoutsStore);
+
+  useEffect(() => store.attach(), [store]);
+
+  return (
+    <WorkoutsContext.Provider value={store}>
+      {children}
+    </WorkoutsContext.Provider>
+  );
+}
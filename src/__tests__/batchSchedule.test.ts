@@ -0,0 +1,130 @@
+import type {
+  DateComponents,
+  SingleGoalWorkoutConfig,
+  WorkoutPlan,
+} from "../ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "../ReactNativeWorkoutsModule";
+import { scheduleMany } from "../batchSchedule";
+import { WorkoutsError } from "../errors";
+import type { MockWorkoutsModule } from "../testing";
+
+jest.mock("../ReactNativeWorkoutsModule", () => ({
+  __esModule: true,
+  default: jest
+    .requireActual("../testing")
+    .createMockWorkoutsModule({ authorizationStatus: "authorized" }),
+}));
+
+const mock = ReactNativeWorkouts as unknown as MockWorkoutsModule;
+
+const easyRun: SingleGoalWorkoutConfig = {
+  activityType: "running",
+  goal: { type: "distance", value: 5, unit: "kilometers" },
+};
+
+const day = (n: number): DateComponents => ({
+  year: 2026,
+  month: 10,
+  day: 19 + n,
+  hour: 7,
+  minute: 0,
+});
+
+async function items(count: number) {
+  const plan = await mock.createSingleGoalWorkoutPlan(easyRun);
+  return Array.from({ length: count }, (_, n) => ({ plan, date: day(n) }));
+}
+
+beforeEach(() => {
+  mock.reset();
+});
+
+describe("scheduleMany", () => {
+  it("reports each item and keeps going after a failure by default", async () => {
+    mock.failNext("plan.scheduleAndSync", new Error("Watch unreachable"));
+
+    const result = await scheduleMany(await items(3));
+    expect(result.items.map((item) => item.status)).toEqual([
+      "failed",
+      "scheduled",
+      "scheduled",
+    ]);
+    expect(result.items[0].error).toBeInstanceOf(WorkoutsError);
+    expect(result).toMatchObject({
+      scheduled: 2,
+      failed: 1,
+      rolledBack: false,
+    });
+    expect(mock.scheduledWorkouts).toHaveLength(2);
+  });
+
+  it("skips the rest and rolls back in atomic mode", async () => {
+    const batch = await items(3);
+    const scheduleAndSync = batch[0].plan.scheduleAndSync;
+    let calls = 0;
+    const flaky = Object.assign({}, batch[0].plan, {
+      scheduleAndSync: (date: DateComponents) =>
+        ++calls === 2
+          ? Promise.reject(new Error("Watch unreachable"))
+          : scheduleAndSync(date),
+    }) as WorkoutPlan;
+
+    const result = await scheduleMany(
+      batch.map((item) => ({ ...item, plan: flaky })),
+      { atomic: true },
+    );
+    expect(result.items.map((item) => item.status)).toEqual([
+      "rolledBack",
+      "failed",
+      "skipped",
+    ]);
+    expect(result).toMatchObject({ scheduled: 0, failed: 1, rolledBack: true });
+    expect(mock.scheduledWorkouts).toEqual([]);
+  });
+
+  it("reports a rollback that fails as its own status", async () => {
+    const batch = await items(2);
+    mock.failNext("removeScheduledWorkout", new Error("Watch unreachable"));
+    const failing = Object.assign({}, batch[1].plan, {
+      scheduleAndSync: () => Promise.reject(new Error("Invalid date")),
+    }) as WorkoutPlan;
+    batch[1] = { ...batch[1], plan: failing };
+
+    const result = await scheduleMany(batch, { atomic: true });
+    expect(result.items.map((item) => item.status)).toEqual([
+      "rollbackFailed",
+      "failed",
+    ]);
+    expect(result.items[0]).toMatchObject({
+      id: mock.scheduledWorkouts[0].id,
+      error: expect.objectContaining({ message: "Watch unreachable" }),
+    });
+    expect(result.rolledBack).toBe(false);
+  });
+
+  it("runs at most `concurrency` items at a time", async () => {
+    const batch = await items(5);
+    const scheduleAndSync = batch[0].plan.scheduleAndSync;
+    let running = 0;
+    let peak = 0;
+    const slow = Object.assign({}, batch[0].plan, {
+      scheduleAndSync: async (date: DateComponents) => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running -= 1;
+        return scheduleAndSync(date);
+      },
+    }) as WorkoutPlan;
+
+    const result = await scheduleMany(
+      batch.map((item) => ({ ...item, plan: slow })),
+      { concurrency: 2 },
+    );
+    expect(peak).toBe(2);
+    expect(result.scheduled).toBe(5);
+    expect(mock.scheduledWorkouts.map((workout) => workout.date)).toEqual(
+      batch.map((item) => item.date),
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { importErgMrc } from "../erg";
+
+const sweetSpot = `[COURSE HEADER]
+VERSION = 2
+DESCRIPTION = Sweet spot
+MINUTES WATTS
+[END COURSE HEADER]
+[COURSE DATA]
+0 100
+5 200
+5 220
+15 220
+15 150
+20 150
+[END COURSE DATA]
+[COURSE TEXT]
+0 Go
+[END COURSE TEXT]`;
+
+describe("importErgMrc", () => {
+  it("turns flat segments into timed power steps and ramps into ranges", () => {
+    const { config, warnings } = importErgMrc(sweetSpot, {
+      athlete: { ftp: 250 },
+    });
+    expect(config).toEqual({
+      activityType: "cycling",
+      locationType: "indoor",
+      displayName: "Sweet spot",
+      blocks: [
+        {
+          steps: [
+            {
+              purpose: "work",
+              goal: { type: "time", value: 300, unit: "seconds" },
+              alert: { type: "power", min: 100, max: 200 },
+            },
+            {
+              purpose: "work",
+              goal: { type: "time", value: 600, unit: "seconds" },
+              alert: { type: "power", min: 213, max: 228 },
+            },
+            {
+              purpose: "work",
+              goal: { type: "time", value: 300, unit: "seconds" },
+              alert: { type: "power", min: 143, max: 158 },
+            },
+          ],
+        },
+      ],
+    });
+    expect(warnings.map((warning) => warning.path)).toEqual([
+      "COURSE TEXT",
+      "COURSE DATA:7",
+    ]);
+  });
+
+  it("resolves MRC percentages against the header FTP", () => {
+    const { config } = importErgMrc(
+      "[COURSE HEADER]\nFTP = 200\nMINUTES PERCENT\n[END COURSE HEADER]\n" +
+        "[COURSE DATA]\n0 50\n10 50\n[END COURSE DATA]",
+      { powerTolerance: 0 },
+    );
+    expect(config.blocks[0].steps).toEqual([
+      {
+        purpose: "work",
+        goal: { type: "time", value: 600, unit: "seconds" },
+        alert: { type: "power", min: 100, max: 100 },
+      },
+    ]);
+  });
+
+  it("rejects files without course data or a MINUTES header", () => {
+    expect(() => importErgMrc("MINUTES WATTS")).toThrow(
+      /missing \[COURSE DATA\]/,
+    );
+    expect(() =>
+      importErgMrc("[COURSE DATA]\n0 100\n10 100\n[END COURSE DATA]"),
+    ).toThrow(/MINUTES WATTS or MINUTES PERCENT/);
+  });
+
+  it("rejects unparsable course data", () => {
+    expect(() =>
+      importErgMrc(
+        "[COURSE HEADER]\nMINUTES WATTS\n[END COURSE HEADER]\n" +
+          "[COURSE DATA]\n0 100\nten 100\n[END COURSE DATA]",
+      ),
+    ).toThrow('Invalid course data at line 6: "ten 100"');
+  });
+
+  it("rejects MRC files without an FTP", () => {
+    expect(() =>
+      importErgMrc(
+        "[COURSE HEADER]\nMINUTES PERCENT\n[END COURSE HEADER]\n" +
+          "[COURSE DATA]\n0 50\n10 50\n[END COURSE DATA]",
+      ),
+    ).toThrow(/relative to FTP/);
+  });
+
+  it("rejects courses whose points have no duration", () => {
+    expect(() =>
+      importErgMrc(
+        "[COURSE HEADER]\nMINUTES WATTS\n[END COURSE HEADER]\n" +
+          "[COURSE DATA]\n0 100\n0 200\n[END COURSE DATA]",
+      ),
+    ).toThrow("no segments with a duration");
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  WorkoutsConfigError,
+  WorkoutsError,
+  WorkoutsNotFoundError,
+  WorkoutsStateError,
+  WorkoutsUnavailableError,
+  isWorkoutsError,
+  toWorkoutsError,
+} from "../errors";
+
+// Expo rejects with an `Error` carrying the exception name as an `ERR_*` code.
+const nativeError = (code: string, message = "Native failure") =>
+  Object.assign(new Error(message), { code });
+
+describe("toWorkoutsError", () => {
+  it.each([
+    ["ERR_INVALID_GOAL", "InvalidGoal", WorkoutsConfigError],
+    ["ERR_INVALID_TARGET", "InvalidTarget", WorkoutsConfigError],
+    ["ERR_INVALID_ALERT", "InvalidAlert", WorkoutsConfigError],
+    ["ERR_INVALID_CONFIG", "InvalidConfig", WorkoutsConfigError],
+    ["ERR_VALIDATION", "ValidationError", WorkoutsConfigError],
+    ["ERR_INVALID_ID", "InvalidID", WorkoutsNotFoundError],
+    ["ERR_NOT_FOUND", "NotFound", WorkoutsNotFoundError],
+    ["ERR_INVALID_STATE", "InvalidState", WorkoutsStateError],
+    ["ERR_NO_VIEW_CONTROLLER", "NoViewController", WorkoutsStateError],
+    ["ERR_UNAVAILABLE", "Unavailable", WorkoutsUnavailableError],
+  ])("maps %s to %s", (nativeCode, code, ErrorClass) => {
+    const cause = nativeError(nativeCode, "Scheduled workout not found");
+    const error = toWorkoutsError(cause);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(WorkoutsError);
+    expect(error).toMatchObject({
+      code,
+      nativeCode,
+      message: "Scheduled workout not found",
+      name: ErrorClass.name,
+    });
+    expect(error.cause).toBe(cause);
+  });
+
+  it.each(["ERR_SOMETHING_NEW", "constructor", "toString"])(
+    "maps the unknown code %s to Unknown",
+    (nativeCode) => {
+      const error = toWorkoutsError(nativeError(nativeCode));
+      expect(error.constructor).toBe(WorkoutsError);
+      expect(error).toMatchObject({ code: "Unknown", nativeCode });
+    },
+  );
+
+  it("wraps errors without a code and non-errors", () => {
+    expect(toWorkoutsError(new TypeError("boom"))).toMatchObject({
+      code: "Unknown",
+      nativeCode: undefined,
+      message: "boom",
+    });
+    expect(toWorkoutsError("boom")).toMatchObject({
+      code: "Unknown",
+      message: "boom",
+      cause: "boom",
+    });
+  });
+
+  it("returns WorkoutsErrors as they are", () => {
+    const error = new WorkoutsUnavailableError();
+    expect(toWorkoutsError(error)).toBe(error);
+    expect(error.message).toBe("WorkoutKit is only available on iOS 17+");
+  });
+});
+
+describe("isWorkoutsError", () => {
+  it("narrows to the given codes", () => {
+    const error = toWorkoutsError(nativeError("ERR_NOT_FOUND"));
+    expect(isWorkoutsError(error)).toBe(true);
+    expect(isWorkoutsError(error, "NotFound", "InvalidID")).toBe(true);
+    expect(isWorkoutsError(error, "InvalidState")).toBe(false);
+    expect(isWorkoutsError(nativeError("ERR_NOT_FOUND"))).toBe(false);
+  });
+});
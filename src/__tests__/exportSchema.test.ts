@@ -0,0 +1,91 @@
+import { WorkoutsConfigError } from "../errors";
+import {
+  WORKOUT_EXPORT_SCHEMA_VERSION,
+  computeWorkoutExportChecksum,
+  migrateWorkoutExport,
+  stampWorkoutExport,
+  verifyWorkoutExport,
+} from "../exportSchema";
+
+const legacy = {
+  id: "plan-1",
+  kind: "singleGoal",
+  config: {
+    activityType: "running",
+    goal: { type: "distance", value: 5, unit: "km" },
+    alert: { type: "pace", min: 4.5, max: 5, unit: "min/km" },
+  },
+} as const;
+
+describe("migrateWorkoutExport", () => {
+  it("upgrades unversioned payloads and re-stamps them", () => {
+    const migrated = migrateWorkoutExport(legacy);
+    expect(migrated).toEqual({
+      id: "plan-1",
+      kind: "singleGoal",
+      schemaVersion: WORKOUT_EXPORT_SCHEMA_VERSION,
+      config: {
+        activityType: "running",
+        goal: { type: "distance", value: 5, unit: "kilometers" },
+        alert: {
+          type: "pace",
+          min: 4.5,
+          max: 5,
+          unit: "minutesPerKilometer",
+        },
+      },
+      checksum: computeWorkoutExportChecksum(migrated),
+    });
+    expect(() => verifyWorkoutExport(migrated)).not.toThrow();
+  });
+
+  it("returns current payloads unchanged", () => {
+    const current = stampWorkoutExport(legacy);
+    expect(migrateWorkoutExport(current)).toBe(current);
+  });
+
+  it("rejects versioned payloads whose checksum doesn't match", () => {
+    const current = stampWorkoutExport(legacy);
+    const edited = {
+      ...current,
+      config: { ...legacy.config, displayName: "Edited" },
+    };
+    expect(() => migrateWorkoutExport(edited)).toThrow(WorkoutsConfigError);
+    expect(() => migrateWorkoutExport(edited)).toThrow(
+      "checksum does not match the content",
+    );
+    const { checksum: _checksum, ...stripped } = current;
+    expect(() => migrateWorkoutExport(stripped)).toThrow(
+      "checksum is required for schemaVersion 1",
+    );
+  });
+
+  it("rejects unknown and newer schema versions", () => {
+    expect(() =>
+      migrateWorkoutExport({ ...legacy, schemaVersion: "1" }),
+    ).toThrow('schemaVersion must be a positive integer, got "1"');
+    expect(() =>
+      migrateWorkoutExport({
+        ...legacy,
+        schemaVersion: WORKOUT_EXPORT_SCHEMA_VERSION + 1,
+      }),
+    ).toThrow("is newer than the supported version");
+  });
+});
+
+describe("verifyWorkoutExport", () => {
+  it("rejects unversioned payloads unless allowUnversioned is set", () => {
+    expect(() => verifyWorkoutExport(legacy)).toThrow(
+      "schemaVersion is missing",
+    );
+    expect(() =>
+      verifyWorkoutExport(legacy, { allowUnversioned: true }),
+    ).not.toThrow();
+  });
+
+  it("rejects payloads that aren't objects", () => {
+    expect(() => verifyWorkoutExport([legacy])).toThrow(
+      "export must be an object",
+    );
+  });
+});
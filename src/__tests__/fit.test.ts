@@ -0,0 +1,112 @@
+import type { CustomWorkoutConfig } from "../ReactNativeWorkouts.types";
+import { exportFit, importFit } from "../fit";
+
+const overUnders: CustomWorkoutConfig = {
+  activityType: "cycling",
+  displayName: "Over-unders",
+  warmup: {
+    goal: { type: "time", value: 600, unit: "seconds" },
+    alert: { type: "heartRate", min: 120, max: 140 },
+  },
+  blocks: [
+    {
+      iterations: 3,
+      steps: [
+        {
+          purpose: "work",
+          goal: { type: "time", value: 120, unit: "seconds" },
+          alert: { type: "power", min: 240, max: 260 },
+        },
+        {
+          purpose: "recovery",
+          goal: { type: "distance", value: 500, unit: "meters" },
+          alert: { type: "cadence", min: 85, max: 95 },
+        },
+      ],
+    },
+    {
+      steps: [
+        {
+          purpose: "work",
+          goal: { type: "energy", value: 50, unit: "kilocalories" },
+          alert: { type: "speed", min: 8, max: 9, unit: "metersPerSecond" },
+        },
+        {
+          purpose: "work",
+          goal: { type: "open" },
+          alert: { type: "heartRate", zone: 3 },
+        },
+      ],
+    },
+  ],
+  cooldown: { goal: { type: "time", value: 300, unit: "seconds" } },
+};
+
+function exportBytes(): Uint8Array {
+  return exportFit(overUnders, { timeCreated: new Date(Date.UTC(2026, 0, 1)) })
+    .data;
+}
+
+describe("FIT", () => {
+  it("round-trips goals, alerts, repeats, warmup and cooldown", () => {
+    const { data, warnings } = exportFit(overUnders);
+    expect(warnings).toEqual([]);
+    expect(importFit(data)).toEqual({ config: overUnders, warnings: [] });
+  });
+
+  it("accepts an ArrayBuffer", () => {
+    const bytes = exportBytes();
+    const buffer = new ArrayBuffer(bytes.byteLength);
+    new Uint8Array(buffer).set(bytes);
+    expect(importFit(buffer).config).toEqual(overUnders);
+  });
+
+  it("writes pace alerts as speed targets", () => {
+    const { data, warnings } = exportFit({
+      activityType: "running",
+      blocks: [
+        {
+          steps: [
+            {
+              purpose: "work",
+              goal: { type: "distance", value: 1, unit: "km" },
+              alert: { type: "pace", min: 4, max: 5, unit: "min/km" },
+            },
+          ],
+        },
+      ],
+    });
+    expect(warnings).toEqual([
+      {
+        path: "blocks[0].steps[0].alert",
+        message: "Pace alert written as a speed target",
+      },
+    ]);
+    expect(importFit(data).config.blocks[0].steps[0]).toEqual({
+      purpose: "work",
+      goal: { type: "distance", value: 1000, unit: "meters" },
+      alert: { type: "speed", min: 3.333, max: 4.167, unit: "metersPerSecond" },
+    });
+  });
+
+  it("rejects files that are too short or lack the .FIT signature", () => {
+    expect(() => importFit(new Uint8Array(4))).toThrow("too short");
+
+    const bytes = exportBytes();
+    bytes[8] = "X".charCodeAt(0);
+    expect(() => importFit(bytes)).toThrow("missing .FIT header");
+  });
+
+  it("rejects truncated files", () => {
+    const bytes = exportBytes();
+    expect(() => importFit(bytes.subarray(0, bytes.length - 10))).toThrow(
+      "Truncated FIT file",
+    );
+  });
+
+  it("rejects files whose CRC doesn't match", () => {
+    const bytes = exportBytes();
+    bytes[20] ^= 0xff;
+    expect(() => importFit(bytes)).toThrow("CRC mismatch");
+  });
+});
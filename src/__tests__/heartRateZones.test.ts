@@ -0,0 +1,147 @@
+import type { CustomWorkoutConfig } from "../ReactNativeWorkouts.types";
+import {
+  type HeartRateZoneInput,
+  computeHeartRateZones,
+  resolveHeartRateAlerts,
+} from "../heartRateZones";
+
+const bounds = (input: HeartRateZoneInput) =>
+  computeHeartRateZones(input).zones.map(({ min, max }) => [min, max]);
+
+describe("computeHeartRateZones", () => {
+  it("splits max heart rate into zones that don't overlap", () => {
+    expect(bounds({ method: "maxHeartRate", maxHeartRate: 190 })).toEqual([
+      [95, 113],
+      [114, 132],
+      [133, 151],
+      [152, 170],
+      [171, 190],
+    ]);
+  });
+
+  it("adds heart rate reserve percentages to the resting heart rate", () => {
+    expect(
+      bounds({
+        method: "heartRateReserve",
+        maxHeartRate: 190,
+        restingHeartRate: 50,
+      }),
+    ).toEqual([
+      [120, 133],
+      [134, 147],
+      [148, 161],
+      [162, 175],
+      [176, 190],
+    ]);
+  });
+
+  it("uses Friel-style zones around the lactate threshold", () => {
+    expect(
+      bounds({ method: "lactateThreshold", thresholdHeartRate: 170 }),
+    ).toEqual([
+      [111, 144],
+      [145, 152],
+      [153, 161],
+      [162, 169],
+      [170, 180],
+    ]);
+  });
+
+  it("accepts a custom scheme", () => {
+    expect(
+      computeHeartRateZones({
+        method: "maxHeartRate",
+        maxHeartRate: 200,
+        scheme: [60, 75, 90],
+      }),
+    ).toEqual({
+      method: "maxHeartRate",
+      zones: [
+        { zone: 1, min: 120, max: 149 },
+        { zone: 2, min: 150, max: 180 },
+      ],
+    });
+  });
+
+  it.each<[HeartRateZoneInput, string]>([
+    [{ method: "maxHeartRate", maxHeartRate: 0 }, "maxHeartRate must be"],
+    [
+      { method: "heartRateReserve", maxHeartRate: 150, restingHeartRate: 160 },
+      "restingHeartRate must be lower than maxHeartRate",
+    ],
+    [
+      { method: "maxHeartRate", maxHeartRate: 190, scheme: [60, 50] },
+      "at least two ascending percentages, got [60, 50]",
+    ],
+  ])("rejects %o", (input, message) => {
+    expect(() => computeHeartRateZones(input)).toThrow(message);
+  });
+});
+
+describe("resolveHeartRateAlerts", () => {
+  const zones = computeHeartRateZones({
+    method: "maxHeartRate",
+    maxHeartRate: 190,
+  });
+  const config: CustomWorkoutConfig = {
+    activityType: "running",
+    warmup: {
+      goal: { type: "time", value: 10, unit: "min" },
+      alert: { type: "heartRate", zone: 1 },
+    },
+    blocks: [
+      {
+        steps: [
+          {
+            purpose: "work",
+            goal: { type: "distance", value: 1, unit: "km" },
+            alert: { type: "heartRate", zone: 4 },
+          },
+          {
+            purpose: "recovery",
+            goal: { type: "time", value: 2, unit: "min" },
+            alert: { type: "pace", min: 6, max: 7 },
+          },
+        ],
+      },
+    ],
+  };
+
+  it("replaces zone alerts with the bpm range of the zone", () => {
+    const resolved = resolveHeartRateAlerts(config, zones);
+    expect(resolved.warmup?.alert).toEqual({
+      type: "heartRate",
+      min: 95,
+      max: 113,
+    });
+    expect(resolved.blocks[0].steps[0].alert).toEqual({
+      type: "heartRate",
+      min: 152,
+      max: 170,
+    });
+    expect(resolved.blocks[0].steps[1]).toBe(config.blocks[0].steps[1]);
+    expect(config.warmup?.alert).toEqual({ type: "heartRate", zone: 1 });
+  });
+
+  it("throws for a zone that isn't defined", () => {
+    expect(() =>
+      resolveHeartRateAlerts(
+        {
+          ...config,
+          blocks: [
+            {
+              steps: [
+                {
+                  purpose: "work",
+                  goal: { type: "time", value: 60 },
+                  alert: { type: "heartRate", zone: 6 },
+                },
+              ],
+            },
+          ],
+        },
+        zones,
+      ),
+    ).toThrow("Heart rate zone 6 is not defined (zones 1-5 available)");
+  });
+});
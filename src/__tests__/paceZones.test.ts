@@ -0,0 +1,163 @@
+import type {
+  CustomWorkoutConfig,
+  PacerWorkoutConfig,
+} from "../ReactNativeWorkouts.types";
+import {
+  type RaceResult,
+  computePaceZones,
+  computeVdot,
+  resolvePaceAlert,
+  resolvePaceAlerts,
+  resolvePacerTarget,
+} from "../paceZones";
+
+const fiveK: RaceResult = {
+  distance: 5,
+  distanceUnit: "km",
+  time: 20,
+  timeUnit: "min",
+};
+const zones = computePaceZones(fiveK);
+
+describe("computeVdot", () => {
+  it("matches Daniels' tables", () => {
+    expect(computeVdot(fiveK)).toBeCloseTo(49.8, 1);
+    expect(
+      computeVdot({ distance: 42.195, distanceUnit: "km", time: 3 * 3600 }),
+    ).toBeCloseTo(53.5, 1);
+  });
+
+  it.each([
+    { distance: 0, time: 1200 },
+    { distance: 5000, time: 0 },
+    { distance: NaN, time: 1200 },
+  ])("rejects %o", (race) => {
+    expect(() => computeVdot(race)).toThrow(
+      "Race distance and time must be positive numbers",
+    );
+  });
+});
+
+describe("computePaceZones", () => {
+  it("orders E/M/T/I/R from slowest to fastest", () => {
+    expect(zones.unit).toBe("minutesPerKilometer");
+    expect(zones.zones.map((zone) => zone.name)).toEqual([
+      "easy",
+      "marathon",
+      "threshold",
+      "interval",
+      "repetition",
+    ]);
+    zones.zones.forEach((zone, index) => {
+      expect(zone.min).toBeLessThan(zone.max);
+      if (index > 0) {
+        expect(zone.min).toBeLessThan(zones.zones[index - 1].min);
+      }
+    });
+    const threshold = zones.zones[2];
+    expect(threshold.min).toBeCloseTo(4.267, 3);
+    expect(threshold.max).toBeCloseTo(4.473, 3);
+  });
+
+  it("computes the zones in the requested unit", () => {
+    const perMile = computePaceZones(fiveK, { unit: "min/mi" });
+    expect(perMile.unit).toBe("minutesPerMile");
+    expect(perMile.zones[2].min).toBeCloseTo(zones.zones[2].min * 1.609344, 6);
+  });
+});
+
+describe("resolvePaceAlert", () => {
+  it("uses the zone range, converted to the alert's unit", () => {
+    const alert = resolvePaceAlert(
+      { type: "pace", zone: "threshold", unit: "min/mi" },
+      zones,
+    );
+    expect(alert.unit).toBe("minutesPerMile");
+    expect(alert.min).toBeCloseTo(6.867, 3);
+    expect(alert.max).toBeCloseTo(7.199, 3);
+  });
+
+  it("centers an offset around the middle of the zone", () => {
+    const alert = resolvePaceAlert(
+      { type: "pace", zone: "threshold", offsetSeconds: 5 },
+      zones,
+    );
+    expect(alert.max - alert.min).toBeCloseTo(10 / 60);
+    expect((alert.min + alert.max) / 2).toBeCloseTo(
+      (zones.zones[2].min + zones.zones[2].max) / 2,
+    );
+  });
+
+  it("returns concrete alerts unchanged", () => {
+    const alert = { type: "pace", min: 4.5, max: 5 } as const;
+    expect(resolvePaceAlert(alert, zones)).toBe(alert);
+  });
+
+  it("throws for a zone the zones don't define", () => {
+    expect(() =>
+      resolvePaceAlert(
+        { type: "pace", zone: "easy" },
+        { ...zones, zones: zones.zones.slice(1) },
+      ),
+    ).toThrow('Pace zone "easy" is not defined');
+  });
+});
+
+describe("resolvePaceAlerts", () => {
+  it("resolves every zone alert of a config", () => {
+    const config: CustomWorkoutConfig = {
+      activityType: "running",
+      blocks: [
+        {
+          steps: [
+            {
+              purpose: "work",
+              goal: { type: "distance", value: 1, unit: "km" },
+              alert: { type: "pace", zone: "interval" },
+            },
+            {
+              purpose: "recovery",
+              goal: { type: "time", value: 2, unit: "min" },
+              alert: { type: "heartRate", zone: 1 },
+            },
+          ],
+        },
+      ],
+    };
+
+    const [work, recovery] = resolvePaceAlerts(config, zones).blocks[0].steps;
+    expect(work.alert).toEqual({
+      type: "pace",
+      min: zones.zones[3].min,
+      max: zones.zones[3].max,
+      unit: "minutesPerKilometer",
+    });
+    expect(recovery).toBe(config.blocks[0].steps[1]);
+  });
+});
+
+describe("resolvePacerTarget", () => {
+  it("targets the middle of the zone", () => {
+    const config: PacerWorkoutConfig = {
+      activityType: "running",
+      target: { type: "pace", zone: "marathon" },
+    };
+    const marathon = zones.zones[1];
+    expect(resolvePacerTarget(config, zones)).toEqual({
+      activityType: "running",
+      target: {
+        type: "pace",
+        value: (marathon.min + marathon.max) / 2,
+        unit: "minutesPerKilometer",
+      },
+    });
+  });
+
+  it("leaves concrete targets alone", () => {
+    const config: PacerWorkoutConfig = {
+      activityType: "running",
+      target: { type: "distanceTime", distance: 5000, time: 1200 },
+    };
+    expect(resolvePacerTarget(config, zones)).toEqual(config);
+  });
+});
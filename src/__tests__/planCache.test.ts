@@ -0,0 +1,148 @@
+import type {
+  SingleGoalWorkoutConfig,
+  WorkoutPlan,
+} from "../ReactNativeWorkouts.types";
+import {
+  DEFAULT_WORKOUT_PLAN_CACHE_SIZE,
+  acquireWorkoutPlan,
+  clearWorkoutPlanCache,
+  configureWorkoutPlanCache,
+  getWorkoutPlanCacheStats,
+  workoutPlanCacheKey,
+} from "../planCache";
+
+const releases: string[] = [];
+let created = 0;
+const createPlan = async (config: SingleGoalWorkoutConfig) => {
+  const id = `plan-${++created}`;
+  return {
+    id,
+    release: () => {
+      releases.push(id);
+    },
+  } as unknown as WorkoutPlan;
+};
+
+const run = (km: number): SingleGoalWorkoutConfig => ({
+  activityType: "running",
+  goal: { type: "distance", value: km, unit: "kilometers" },
+});
+
+// Plans are released once their creation promise settles.
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(async () => {
+  configureWorkoutPlanCache({ maxIdle: 0 });
+  clearWorkoutPlanCache();
+  configureWorkoutPlanCache({ maxIdle: DEFAULT_WORKOUT_PLAN_CACHE_SIZE });
+  await flush();
+  releases.length = 0;
+  created = 0;
+});
+
+describe("workoutPlanCacheKey", () => {
+  it("ignores key order, unit aliases and undefined properties", () => {
+    expect(
+      workoutPlanCacheKey(createPlan, {
+        goal: { unit: "km", value: 5, type: "distance" },
+        activityType: "running",
+        displayName: undefined,
+      } as SingleGoalWorkoutConfig),
+    ).toBe(workoutPlanCacheKey(createPlan, run(5)));
+    expect(workoutPlanCacheKey(createPlan, run(5))).not.toBe(
+      workoutPlanCacheKey(createPlan, run(10)),
+    );
+  });
+
+  it("keeps plans of different factories apart", () => {
+    const otherFactory = async (config: SingleGoalWorkoutConfig) =>
+      createPlan(config);
+    expect(workoutPlanCacheKey(otherFactory, run(5))).not.toBe(
+      workoutPlanCacheKey(createPlan, run(5)),
+    );
+  });
+});
+
+describe("acquireWorkoutPlan", () => {
+  it("shares one plan between holders and counts hits", async () => {
+    const first = acquireWorkoutPlan(createPlan, run(5));
+    const second = acquireWorkoutPlan(createPlan, { ...run(5) });
+    expect(await second.plan).toBe(await first.plan);
+    expect(getWorkoutPlanCacheStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      inUse: 1,
+      idle: 0,
+    });
+
+    first.release();
+    expect(getWorkoutPlanCacheStats()).toMatchObject({ inUse: 1, idle: 0 });
+    second.release();
+    expect(getWorkoutPlanCacheStats()).toMatchObject({ inUse: 0, idle: 1 });
+  });
+
+  it("ignores a second release from the same holder", async () => {
+    configureWorkoutPlanCache({ maxIdle: 0 });
+    const first = acquireWorkoutPlan(createPlan, run(5));
+    const second = acquireWorkoutPlan(createPlan, run(5));
+
+    first.release();
+    first.release();
+    await flush();
+    expect(releases).toEqual([]);
+    expect(getWorkoutPlanCacheStats()).toMatchObject({ inUse: 1 });
+
+    second.release();
+    await flush();
+    expect(releases).toEqual(["plan-1"]);
+  });
+
+  it("evicts the least recently released idle plans", async () => {
+    configureWorkoutPlanCache({ maxIdle: 2 });
+    const holders = [5, 10, 21].map((km) =>
+      acquireWorkoutPlan(createPlan, run(km)),
+    );
+    holders[1].release();
+    holders[0].release();
+    holders[2].release();
+    await flush();
+    expect(releases).toEqual(["plan-2"]);
+
+    // Reacquiring an idle plan is a hit and doesn't create a new one.
+    const again = acquireWorkoutPlan(createPlan, run(5));
+    expect((await again.plan).id).toBe("plan-1");
+    expect(created).toBe(3);
+    again.release();
+  });
+
+  it("never evicts plans that are still held", async () => {
+    configureWorkoutPlanCache({ maxIdle: 0 });
+    const held = acquireWorkoutPlan(createPlan, run(5));
+    const idle = acquireWorkoutPlan(createPlan, run(10));
+    idle.release();
+    clearWorkoutPlanCache();
+    await flush();
+
+    expect(releases).toEqual(["plan-2"]);
+    expect(getWorkoutPlanCacheStats()).toMatchObject({ inUse: 1, idle: 0 });
+    const again = acquireWorkoutPlan(createPlan, run(5));
+    expect(await again.plan).toBe(await held.plan);
+    again.release();
+    held.release();
+  });
+
+  it("doesn't cache plans whose creation failed", async () => {
+    const failing = jest
+      .fn<Promise<WorkoutPlan>, [SingleGoalWorkoutConfig]>()
+      .mockRejectedValueOnce(new Error("Invalid config"))
+      .mockImplementation(createPlan);
+
+    await expect(acquireWorkoutPlan(failing, run(5)).plan).rejects.toThrow(
+      "Invalid config",
+    );
+    await expect(
+      acquireWorkoutPlan(failing, run(5)).plan,
+    ).resolves.toMatchObject({ id: "plan-1" });
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,117 @@
+import type { WorkoutPlanExport } from "../ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "../ReactNativeWorkoutsModule";
+import { WorkoutsConfigError } from "../errors";
+import { stampWorkoutExport } from "../exportSchema";
+import {
+  createWorkoutPlanFromExport,
+  parseWorkoutPlanExport,
+} from "../planExport";
+import type { MockWorkoutsModule } from "../testing";
+
+jest.mock("../ReactNativeWorkoutsModule", () => ({
+  __esModule: true,
+  default: jest.requireActual("../testing").createMockWorkoutsModule(),
+}));
+
+const mock = ReactNativeWorkouts as unknown as MockWorkoutsModule;
+
+const legacy = {
+  id: "plan-1",
+  kind: "pacer",
+  config: {
+    activityType: "running",
+    target: { type: "pace", value: 5, unit: "min/km" },
+  },
+} as const;
+
+beforeEach(() => {
+  mock.reset();
+});
+
+describe("parseWorkoutPlanExport", () => {
+  it("lists every issue with its path", () => {
+    expect(() =>
+      parseWorkoutPlanExport({
+        id: 1,
+        kind: "singleGoal",
+        config: {
+          activityType: "running",
+          goal: { type: "distance", value: 0 },
+        },
+      }),
+    ).toThrow(
+      "Invalid workout plan export: id: Export id must be a string; config.goal.value: Distance value must be > 0, got 0",
+    );
+    expect(() => parseWorkoutPlanExport({ id: "a", kind: "yoga" })).toThrow(
+      "kind: Export kind must be one of custom, singleGoal, pacer, swimBikeRun",
+    );
+    expect(() => parseWorkoutPlanExport([])).toThrow(
+      "(root): Export must be an object",
+    );
+  });
+});
+
+describe("createWorkoutPlanFromExport", () => {
+  it("recreates the plan with the factory of its kind", async () => {
+    const plan = await ReactNativeWorkouts.createPacerWorkoutPlan(
+      legacy.config,
+    );
+    const exported: WorkoutPlanExport = JSON.parse(
+      JSON.stringify(plan.export()),
+    );
+
+    const copy = await createWorkoutPlanFromExport(exported);
+    expect(copy.id).not.toBe(plan.id);
+    expect(copy.export()).toMatchObject({
+      kind: "pacer",
+      config: legacy.config,
+    });
+    expect(mock.calls.map((call) => call.method)).toEqual([
+      "createPacerWorkoutPlan",
+      "createPacerWorkoutPlan",
+    ]);
+  });
+
+  it("only accepts unversioned payloads with allowUnversioned", async () => {
+    const rejected = createWorkoutPlanFromExport(legacy);
+    await expect(rejected).rejects.toThrow(WorkoutsConfigError);
+    await expect(rejected).rejects.toThrow("schemaVersion is missing");
+
+    const plan = await createWorkoutPlanFromExport(legacy, {
+      allowUnversioned: true,
+    });
+    // Migrating from version 0 canonicalizes the units.
+    expect(plan.export().config).toEqual({
+      activityType: "running",
+      target: { type: "pace", value: 5, unit: "minutesPerKilometer" },
+    });
+  });
+
+  it("rejects modified payloads, even with allowUnversioned", async () => {
+    const exported = stampWorkoutExport(legacy);
+    const edited = {
+      ...exported,
+      config: { ...legacy.config, displayName: "Edited" },
+    };
+
+    await expect(
+      createWorkoutPlanFromExport(edited, { allowUnversioned: true }),
+    ).rejects.toThrow("checksum does not match the content");
+    expect(mock.calls).toEqual([]);
+  });
+
+  it("rejects valid payloads whose config is invalid", async () => {
+    const exported = stampWorkoutExport({
+      ...legacy,
+      config: {
+        ...legacy.config,
+        target: { type: "pace", value: -5, unit: "min/km" },
+      },
+    });
+
+    await expect(createWorkoutPlanFromExport(exported)).rejects.toThrow(
+      "config.target.value: Target value must be > 0, got -5",
+    );
+    expect(mock.calls).toEqual([]);
+  });
+});
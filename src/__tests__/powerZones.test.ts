@@ -0,0 +1,126 @@
+import type { CustomWorkoutConfig } from "../ReactNativeWorkouts.types";
+import {
+  COGGAN_POWER_ZONES,
+  powerAlertPercentFtp,
+  resolvePowerAlert,
+  resolvePowerAlerts,
+} from "../powerZones";
+
+describe("COGGAN_POWER_ZONES", () => {
+  it("covers 45–300% of FTP without gaps", () => {
+    expect(COGGAN_POWER_ZONES.map((zone) => zone.zone)).toEqual([
+      1, 2, 3, 4, 5, 6, 7,
+    ]);
+    COGGAN_POWER_ZONES.slice(1).forEach((zone, index) => {
+      expect(zone.minPercentFtp).toBe(
+        COGGAN_POWER_ZONES[index].maxPercentFtp + 1,
+      );
+    });
+    expect(COGGAN_POWER_ZONES[0].minPercentFtp).toBe(45);
+    expect(COGGAN_POWER_ZONES[6].maxPercentFtp).toBe(300);
+  });
+});
+
+describe("powerAlertPercentFtp", () => {
+  it("reads zones, % of FTP and watts", () => {
+    expect(powerAlertPercentFtp({ type: "power", zone: "threshold" })).toEqual({
+      min: 91,
+      max: 105,
+    });
+    expect(
+      powerAlertPercentFtp({
+        type: "power",
+        minPercentFtp: 88,
+        maxPercentFtp: 94,
+      }),
+    ).toEqual({ min: 88, max: 94 });
+    expect(
+      powerAlertPercentFtp({ type: "power", min: 150, max: 300 }, 300),
+    ).toEqual({ min: 50, max: 100 });
+  });
+
+  it("needs an FTP for watts", () => {
+    expect(() =>
+      powerAlertPercentFtp({ type: "power", min: 150, max: 300 }),
+    ).toThrow("FTP must be a positive number of watts, got undefined");
+  });
+});
+
+describe("resolvePowerAlert", () => {
+  it("turns zones and % of FTP into rounded watts", () => {
+    expect(resolvePowerAlert({ type: "power", zone: "vo2Max" }, 200)).toEqual({
+      type: "power",
+      min: 212,
+      max: 240,
+    });
+    expect(
+      resolvePowerAlert(
+        { type: "power", minPercentFtp: 88.3, maxPercentFtp: 94 },
+        200,
+      ),
+    ).toEqual({ type: "power", min: 177, max: 188 });
+  });
+
+  it("returns watts alerts unchanged", () => {
+    const alert = { type: "power", min: 180, max: 200 } as const;
+    expect(resolvePowerAlert(alert, 200)).toBe(alert);
+  });
+
+  it.each([0, -200, NaN])("rejects an FTP of %p", (ftp) => {
+    expect(() =>
+      resolvePowerAlert({ type: "power", zone: "tempo" }, ftp),
+    ).toThrow(`FTP must be a positive number of watts, got ${ftp}`);
+  });
+
+  it("rejects unknown zones", () => {
+    expect(() =>
+      resolvePowerAlert(
+        { type: "power", zone: "Threshold" as "threshold" },
+        200,
+      ),
+    ).toThrow('Unknown power zone "Threshold"');
+  });
+});
+
+describe("resolvePowerAlerts", () => {
+  it("resolves every relative power alert of a config", () => {
+    const config: CustomWorkoutConfig = {
+      activityType: "cycling",
+      warmup: {
+        goal: { type: "time", value: 10, unit: "min" },
+        alert: { type: "power", zone: "endurance" },
+      },
+      blocks: [
+        {
+          iterations: 3,
+          steps: [
+            {
+              purpose: "work",
+              goal: { type: "time", value: 8, unit: "min" },
+              alert: { type: "power", minPercentFtp: 95, maxPercentFtp: 105 },
+            },
+            {
+              purpose: "recovery",
+              goal: { type: "time", value: 4, unit: "min" },
+              alert: { type: "heartRate", zone: 1 },
+            },
+          ],
+        },
+      ],
+    };
+
+    const resolved = resolvePowerAlerts(config, 200);
+    expect(resolved.warmup?.alert).toEqual({
+      type: "power",
+      min: 112,
+      max: 150,
+    });
+    expect(resolved.blocks[0].steps[0].alert).toEqual({
+      type: "power",
+      min: 190,
+      max: 210,
+    });
+    expect(resolved.blocks[0].steps[1]).toBe(config.blocks[0].steps[1]);
+    expect(config.warmup?.alert).toEqual({ type: "power", zone: "endurance" });
+  });
+});
@@ -0,0 +1,200 @@
+import { requireNativeModule } from "expo";
+
+import type {
+  DateComponents,
+  SingleGoalWorkoutConfig,
+  WorkoutPlanExport,
+} from "../ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "../ReactNativeWorkoutsModule";
+import { reconcileSchedule } from "../reconcile";
+import {
+  configureWorkoutMetadataStorage,
+  createMemoryMetadataStorage,
+} from "../scheduledMetadata";
+import type { MockWorkoutsModule } from "../testing";
+
+jest.mock("expo", () => {
+  const native = jest
+    .requireActual("../testing")
+    .createMockWorkoutsModule({ authorizationStatus: "authorized" });
+  return {
+    NativeModule: class {},
+    SharedObject: class {},
+    requireNativeModule: () => native,
+  };
+});
+// Workouts are matched through the metadata the iOS wrapper records and joins.
+jest.mock("../ReactNativeWorkoutsModule", () =>
+  jest.requireActual("../ReactNativeWorkoutsModule.ts"),
+);
+
+const mock = requireNativeModule("ReactNativeWorkouts") as MockWorkoutsModule;
+
+const run = (km: number): SingleGoalWorkoutConfig => ({
+  activityType: "running",
+  goal: { type: "distance", value: km, unit: "kilometers" },
+});
+
+const day = (n: number): DateComponents => ({
+  year: 2026,
+  month: 11,
+  day: 1 + n,
+  hour: 7,
+  minute: 0,
+});
+
+// Schedules through the wrapper, so the registry knows the workout.
+async function schedule(config: SingleGoalWorkoutConfig, date: DateComponents) {
+  const plan = await ReactNativeWorkouts.createSingleGoalWorkoutPlan(config);
+  const { id } = await plan.scheduleAndSync(date);
+  const exported = plan.export();
+  plan.release();
+  return { id, exported };
+}
+
+async function exportOf(
+  config: SingleGoalWorkoutConfig,
+): Promise<WorkoutPlanExport> {
+  const plan = await ReactNativeWorkouts.createSingleGoalWorkoutPlan(config);
+  const exported = plan.export();
+  plan.release();
+  return exported;
+}
+
+const scheduledDates = () =>
+  mock.scheduledWorkouts.map((workout) => workout.date.day);
+
+beforeEach(() => {
+  mock.reset();
+  configureWorkoutMetadataStorage(createMemoryMetadataStorage());
+});
+
+describe("reconcileSchedule", () => {
+  it("keeps, reschedules, adds and removes managed workouts", async () => {
+    const fiveK = await schedule(run(5), day(0));
+    const tenK = await schedule(run(10), day(1));
+    const stale = await schedule(run(3), day(2));
+
+    const result = await reconcileSchedule([
+      { export: fiveK.exported, date: day(0) },
+      { export: tenK.exported, date: day(3) },
+      { export: await exportOf(run(21)), date: day(4) },
+    ]);
+
+    expect(
+      result.items.map(({ action, status, desiredIndex, scheduled }) => ({
+        action,
+        status,
+        desiredIndex,
+        scheduledId: scheduled?.id,
+      })),
+    ).toEqual([
+      {
+        action: "remove",
+        status: "applied",
+        desiredIndex: undefined,
+        scheduledId: stale.id,
+      },
+      {
+        action: "keep",
+        status: "planned",
+        desiredIndex: 0,
+        scheduledId: fiveK.id,
+      },
+      {
+        action: "reschedule",
+        status: "applied",
+        desiredIndex: 1,
+        scheduledId: tenK.id,
+      },
+      {
+        action: "add",
+        status: "applied",
+        desiredIndex: 2,
+        scheduledId: undefined,
+      },
+    ]);
+    expect(result).toMatchObject({
+      added: 1,
+      removed: 1,
+      rescheduled: 1,
+      kept: 1,
+      failed: 0,
+    });
+    expect(scheduledDates().sort()).toEqual([1, 4, 5]);
+  });
+
+  it("matches exact dates before moving workouts", async () => {
+    const fiveK = await schedule(run(5), day(0));
+
+    const result = await reconcileSchedule([
+      { export: fiveK.exported, date: day(1) },
+      { export: fiveK.exported, date: day(0) },
+    ]);
+    expect(
+      result.items.map((item) => [item.desiredIndex, item.action]),
+    ).toEqual([
+      [1, "keep"],
+      [0, "add"],
+    ]);
+    expect(scheduledDates().sort()).toEqual([1, 2]);
+  });
+
+  it("leaves workouts the registry doesn't know untouched", async () => {
+    const unmanaged = await mock.createSingleGoalWorkoutPlan(run(5));
+    await unmanaged.scheduleAndSync(day(0));
+
+    const result = await reconcileSchedule([]);
+    expect(result.items).toEqual([]);
+    expect(mock.scheduledWorkouts).toEqual([
+      { id: unmanaged.id, date: day(0) },
+    ]);
+  });
+
+  it("only plans the changes in dry-run mode", async () => {
+    const fiveK = await schedule(run(5), day(0));
+    await schedule(run(3), day(2));
+    const before = mock.scheduledWorkouts.map((workout) => ({ ...workout }));
+
+    const result = await reconcileSchedule(
+      [{ export: fiveK.exported, date: day(1) }],
+      { dryRun: true },
+    );
+    expect(result.dryRun).toBe(true);
+    expect(result.items.map((item) => [item.action, item.status])).toEqual([
+      ["remove", "planned"],
+      ["reschedule", "planned"],
+    ]);
+    expect(mock.scheduledWorkouts).toEqual(before);
+  });
+
+  it("reports failures per item and applies the rest", async () => {
+    const fiveK = await schedule(run(5), day(0));
+    await schedule(run(3), day(2));
+    const {
+      schemaVersion: _version,
+      checksum: _checksum,
+      ...unversioned
+    } = await exportOf(run(10));
+    mock.failNext("removeScheduledWorkout", new Error("Watch unreachable"));
+
+    const result = await reconcileSchedule([
+      { export: fiveK.exported, date: day(0) },
+      { export: unversioned as WorkoutPlanExport, date: day(1) },
+      { export: await exportOf(run(21)), date: day(4) },
+    ]);
+    expect(
+      result.items.map((item) => [item.action, item.status, item.desiredIndex]),
+    ).toEqual([
+      ["add", "failed", 1],
+      ["remove", "failed", undefined],
+      ["keep", "planned", 0],
+      ["add", "applied", 2],
+    ]);
+    expect(result.items[0].error?.message).toContain(
+      "schemaVersion is missing",
+    );
+    expect(result.items[1].error?.message).toBe("Watch unreachable");
+    expect(result).toMatchObject({ added: 1, kept: 1, failed: 2 });
+  });
+});
@@ -0,0 +1,160 @@
+import { WorkoutsConfigError } from "../errors";
+import {
+  MAX_RECURRENCE_OCCURRENCES,
+  expandRecurrenceRule,
+  parseRecurrenceRule,
+} from "../recurrence";
+
+// Rule expansion never reaches the native module.
+jest.mock("../ReactNativeWorkoutsModule", () => ({
+  __esModule: true,
+  default: {},
+}));
+
+const at = (
+  year: number,
+  month: number,
+  day: number,
+  hour = 6,
+  minute = 30,
+) => ({
+  year,
+  month,
+  day,
+  hour,
+  minute,
+});
+
+describe("expandRecurrenceRule", () => {
+  it("expands weekly rules on the listed weekdays", () => {
+    expect(
+      expandRecurrenceRule(
+        "DTSTART:20261020T063000\nRRULE:FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4",
+      ),
+    ).toEqual([
+      at(2026, 10, 20),
+      at(2026, 10, 22),
+      at(2026, 10, 27),
+      at(2026, 10, 29),
+    ]);
+  });
+
+  it("skips months without the 31st", () => {
+    expect(
+      expandRecurrenceRule(
+        "DTSTART:20260131T063000\nRRULE:FREQ=MONTHLY;COUNT=4",
+      ),
+    ).toEqual([
+      at(2026, 1, 31),
+      at(2026, 3, 31),
+      at(2026, 5, 31),
+      at(2026, 7, 31),
+    ]);
+  });
+
+  it("includes the whole UNTIL day when it has no time", () => {
+    expect(
+      expandRecurrenceRule(
+        "DTSTART:20261020T063000\nRRULE:FREQ=DAILY;UNTIL=20261023",
+      ),
+    ).toEqual([
+      at(2026, 10, 20),
+      at(2026, 10, 21),
+      at(2026, 10, 22),
+      at(2026, 10, 23),
+    ]);
+  });
+
+  it("stops before an UNTIL time earlier in the day", () => {
+    expect(
+      expandRecurrenceRule(
+        "DTSTART:20261020T063000\nRRULE:FREQ=DAILY;UNTIL=20261022T060000",
+      ),
+    ).toEqual([at(2026, 10, 20), at(2026, 10, 21)]);
+  });
+
+  it("returns nothing when UNTIL is before the start", () => {
+    expect(
+      expandRecurrenceRule(
+        "DTSTART:20261020T063000\nRRULE:FREQ=WEEKLY;UNTIL=20261019",
+      ),
+    ).toEqual([]);
+  });
+
+  it(`allows up to ${MAX_RECURRENCE_OCCURRENCES} occurrences`, () => {
+    const dates = expandRecurrenceRule(
+      `DTSTART:20260101T063000\nRRULE:FREQ=DAILY;COUNT=${MAX_RECURRENCE_OCCURRENCES}`,
+    );
+    expect(dates).toHaveLength(MAX_RECURRENCE_OCCURRENCES);
+    expect(dates[dates.length - 1]).toEqual(at(2027, 1, 1));
+  });
+
+  it(`rejects rules with more than ${MAX_RECURRENCE_OCCURRENCES} occurrences`, () => {
+    expect(() =>
+      expandRecurrenceRule(
+        `DTSTART:20260101T063000\nRRULE:FREQ=DAILY;COUNT=${
+          MAX_RECURRENCE_OCCURRENCES + 1
+        }`,
+      ),
+    ).toThrow(WorkoutsConfigError);
+    expect(() =>
+      expandRecurrenceRule(
+        "DTSTART:20260101T063000\nRRULE:FREQ=DAILY;UNTIL=20280101",
+      ),
+    ).toThrow(`more than ${MAX_RECURRENCE_OCCURRENCES} occurrences`);
+  });
+
+  it("rejects daily rules whose interval skips every BYDAY weekday", () => {
+    // 2026-10-20 is a Tuesday, so every 7th day after it is one too.
+    expect(() =>
+      expandRecurrenceRule(
+        "DTSTART:20261020T063000\nRRULE:FREQ=DAILY;INTERVAL=7;BYDAY=MO;UNTIL=20261231",
+      ),
+    ).toThrow("BYDAY=MO never matches: every 7 days from DTSTART is a TU");
+    expect(
+      expandRecurrenceRule(
+        "DTSTART:20261020T063000\nRRULE:FREQ=DAILY;INTERVAL=7;BYDAY=MO,TU;COUNT=2",
+      ),
+    ).toEqual([at(2026, 10, 20), at(2026, 10, 27)]);
+  });
+
+  it("requires COUNT or UNTIL", () => {
+    expect(() =>
+      expandRecurrenceRule("DTSTART:20261020T063000\nRRULE:FREQ=DAILY"),
+    ).toThrow("COUNT or UNTIL is required");
+  });
+});
+
+describe("parseRecurrenceRule", () => {
+  it("prefers the start passed in over DTSTART", () => {
+    expect(
+      parseRecurrenceRule(
+        "DTSTART:20261020T063000\nRRULE:FREQ=DAILY;INTERVAL=2;COUNT=3",
+        { year: 2026, month: 11, day: 1 },
+      ),
+    ).toEqual({
+      freq: "DAILY",
+      start: { year: 2026, month: 11, day: 1 },
+      interval: 2,
+      count: 3,
+    });
+  });
+
+  it("rejects unsupported parts and values", () => {
+    expect(() =>
+      parseRecurrenceRule("DTSTART:20261020\nRRULE:FREQ=YEARLY;COUNT=2"),
+    ).toThrow("FREQ must be DAILY, WEEKLY or MONTHLY");
+    expect(() =>
+      parseRecurrenceRule("DTSTART:20261020\nRRULE:FREQ=DAILY;BYHOUR=6"),
+    ).toThrow("unsupported part(s) BYHOUR");
+    expect(() =>
+      parseRecurrenceRule("DTSTART:20261020\nRRULE:FREQ=WEEKLY;BYDAY=1MO"),
+    ).toThrow('unsupported BYDAY value "1MO"');
+    expect(() =>
+      parseRecurrenceRule("DTSTART:20261020T063000Z\nRRULE:FREQ=DAILY"),
+    ).toThrow("DTSTART must be a local date");
+    expect(() => parseRecurrenceRule("RRULE:FREQ=DAILY;COUNT=2")).toThrow(
+      "DTSTART is required",
+    );
+  });
+});
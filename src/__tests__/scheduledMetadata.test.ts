@@ -0,0 +1,109 @@
+import type { ScheduledWorkout } from "../ReactNativeWorkouts.types";
+import { stampWorkoutExport, verifyWorkoutExport } from "../exportSchema";
+import {
+  WORKOUT_METADATA_STORAGE_KEY,
+  assignScheduledWorkoutsToProgram,
+  configureWorkoutMetadataStorage,
+  createMemoryMetadataStorage,
+  getScheduledWorkoutMetadata,
+  joinScheduledWorkoutMetadata,
+  recordScheduledWorkout,
+} from "../scheduledMetadata";
+
+const now = new Date(2026, 9, 19, 12, 0);
+const yesterday = { year: 2026, month: 10, day: 18, hour: 7, minute: 0 };
+const tomorrow = { year: 2026, month: 10, day: 20, hour: 7, minute: 0 };
+
+const exportFor = (id: string) =>
+  stampWorkoutExport({
+    id,
+    kind: "singleGoal",
+    config: {
+      activityType: "running",
+      displayName: "Easy run",
+      goal: { type: "distance", value: 5, unit: "kilometers" },
+    },
+  });
+
+let storage = createMemoryMetadataStorage();
+
+beforeEach(() => {
+  storage = createMemoryMetadataStorage();
+  configureWorkoutMetadataStorage(storage);
+});
+
+// Joining prunes in the background; a later write is queued behind it.
+async function storedIds(): Promise<string[]> {
+  await recordScheduledWorkout(exportFor("flush"), tomorrow);
+  const json = await storage.getItem(WORKOUT_METADATA_STORAGE_KEY);
+  return Object.keys(JSON.parse(json!)).filter((id) => id !== "flush");
+}
+
+describe("assignScheduledWorkoutsToProgram", () => {
+  it("rejects when storage fails, unlike recording", async () => {
+    const onError = jest.fn();
+    configureWorkoutMetadataStorage(
+      {
+        getItem: () => null,
+        setItem: () => {
+          throw new Error("Disk full");
+        },
+      },
+      { onError },
+    );
+
+    await expect(
+      recordScheduledWorkout(exportFor("a"), tomorrow),
+    ).resolves.toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(1);
+    await expect(
+      assignScheduledWorkoutsToProgram(["a"], "base-5k"),
+    ).rejects.toThrow("Disk full");
+  });
+});
+
+describe("joinScheduledWorkoutMetadata", () => {
+  it("adds the recorded metadata and program to native workouts", async () => {
+    await recordScheduledWorkout(exportFor("a"), tomorrow);
+    await assignScheduledWorkoutsToProgram(["a"], "base-5k");
+
+    const [workout] = await joinScheduledWorkoutMetadata(
+      [{ id: "a", date: tomorrow }],
+      now,
+    );
+    expect(workout).toEqual<ScheduledWorkout>({
+      id: "a",
+      date: tomorrow,
+      kind: "singleGoal",
+      displayName: "Easy run",
+      activityType: "running",
+      config: exportFor("a").config,
+      programId: "base-5k",
+    });
+  });
+
+  it("keeps the stored export verifiable after assigning a program", async () => {
+    await recordScheduledWorkout(exportFor("a"), tomorrow);
+    await assignScheduledWorkoutsToProgram(["a"], "base-5k");
+
+    const stored = await getScheduledWorkoutMetadata("a");
+    expect(stored).toEqual(exportFor("a"));
+    expect(() => verifyWorkoutExport(stored!)).not.toThrow();
+  });
+
+  it("only drops unlisted entries whose date has passed", async () => {
+    await recordScheduledWorkout(exportFor("done"), yesterday);
+    await recordScheduledWorkout(exportFor("upcoming"), tomorrow);
+
+    await joinScheduledWorkoutMetadata([], now);
+    expect(await storedIds()).toEqual(["upcoming"]);
+  });
+
+  it("keeps the latest date a workout was scheduled on", async () => {
+    await recordScheduledWorkout(exportFor("series"), tomorrow);
+    await recordScheduledWorkout(exportFor("series"), yesterday);
+
+    await joinScheduledWorkoutMetadata([], now);
+    expect(await storedIds()).toEqual(["series"]);
+  });
+});
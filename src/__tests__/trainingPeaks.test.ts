@@ -0,0 +1,178 @@
+import { importTrainingPeaks } from "../trainingPeaks";
+import { validateWorkoutConfig } from "../validation";
+
+const overUnders = {
+  primaryIntensityMetric: "percentOfFtp",
+  structure: [
+    {
+      type: "step",
+      length: { value: 1, unit: "repetition" },
+      steps: [
+        {
+          intensityClass: "warmUp",
+          length: { value: 10, unit: "minute" },
+          targets: [{ minValue: 50, maxValue: 65 }],
+        },
+      ],
+    },
+    {
+      type: "repetition",
+      length: { value: 4, unit: "repetition" },
+      steps: [
+        {
+          intensityClass: "active",
+          length: { value: 4, unit: "minute" },
+          targets: [{ minValue: 105, maxValue: 110 }],
+        },
+        {
+          intensityClass: "rest",
+          length: { value: 3, unit: "minute" },
+          targets: [{ value: 50 }],
+        },
+      ],
+    },
+    {
+      type: "step",
+      length: { value: 1, unit: "repetition" },
+      steps: [
+        {
+          intensityClass: "coolDown",
+          length: { value: 5, unit: "minute" },
+          targets: [{ minValue: 40, maxValue: 55 }],
+        },
+      ],
+    },
+  ],
+};
+
+const options = { activityType: "cycling", athlete: { ftp: 250 } } as const;
+
+describe("importTrainingPeaks", () => {
+  it("maps warmup, repetitions and cooldown to a valid config", () => {
+    const { config, warnings } = importTrainingPeaks(
+      JSON.stringify(overUnders),
+      options,
+    );
+    expect(warnings).toEqual([]);
+    expect(config).toEqual({
+      activityType: "cycling",
+      warmup: {
+        goal: { type: "time", value: 600, unit: "seconds" },
+        alert: { type: "power", min: 125, max: 163 },
+      },
+      blocks: [
+        {
+          iterations: 4,
+          steps: [
+            {
+              purpose: "work",
+              goal: { type: "time", value: 240, unit: "seconds" },
+              alert: { type: "power", min: 263, max: 275 },
+            },
+            {
+              purpose: "recovery",
+              goal: { type: "time", value: 180, unit: "seconds" },
+              alert: { type: "power", min: 118, max: 133 },
+            },
+          ],
+        },
+      ],
+      cooldown: {
+        goal: { type: "time", value: 300, unit: "seconds" },
+        alert: { type: "power", min: 100, max: 138 },
+      },
+    });
+    expect(validateWorkoutConfig("custom", config).valid).toBe(true);
+  });
+
+  it("accepts PascalCase keys and an already parsed object", () => {
+    const pascal = JSON.parse(
+      JSON.stringify(overUnders).replace(
+        /"(\w)(\w*)":/g,
+        (_, first: string, rest: string) => `"${first.toUpperCase()}${rest}":`,
+      ),
+    );
+    expect(importTrainingPeaks(pascal, options).config).toEqual(
+      importTrainingPeaks(overUnders, options).config,
+    );
+  });
+
+  it("reports nested repetitions, unknown items and missing thresholds", () => {
+    const { config, warnings } = importTrainingPeaks(
+      {
+        primaryIntensityMetric: "percentOfThresholdHr",
+        structure: [
+          {
+            type: "repetition",
+            length: { value: 2 },
+            steps: [
+              {
+                intensityClass: "active",
+                length: { value: 1, unit: "kilometer" },
+                targets: [{ minValue: 90, maxValue: 95 }],
+              },
+              { type: "repetition", steps: [] },
+            ],
+          },
+          { type: "freeRide" },
+        ],
+      },
+      options,
+    );
+    expect(config.blocks).toEqual([
+      {
+        iterations: 2,
+        steps: [
+          {
+            purpose: "work",
+            goal: { type: "distance", value: 1000, unit: "meters" },
+          },
+        ],
+      },
+    ]);
+    expect(warnings.map((warning) => warning.path)).toEqual([
+      "primaryIntensityMetric",
+      "structure[0].steps[1]",
+      "structure[1]",
+    ]);
+  });
+
+  it("doesn't mistake inherited property names for units or metrics", () => {
+    const { config, warnings } = importTrainingPeaks(
+      {
+        primaryIntensityMetric: "constructor",
+        structure: [
+          {
+            type: "step",
+            length: { value: 1, unit: "repetition" },
+            steps: [
+              {
+                intensityClass: "active",
+                length: { value: 10, unit: "__proto__" },
+                targets: [{ minValue: 90, maxValue: 95 }],
+              },
+            ],
+          },
+        ],
+      },
+      options,
+    );
+    expect(config.blocks).toEqual([
+      { steps: [{ purpose: "work", goal: { type: "open" } }] },
+    ]);
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      'Intensity metric "constructor" is not supported; targets were dropped',
+      'Length unit "__proto__" is not supported; step imported as open',
+    ]);
+  });
+
+  it("rejects input without a structure list", () => {
+    expect(() => importTrainingPeaks({ steps: [] }, options)).toThrow(
+      /missing `structure` list/,
+    );
+    expect(() => importTrainingPeaks("[]", options)).toThrow(
+      /missing `structure` list/,
+    );
+    expect(() => importTrainingPeaks("{", options)).toThrow(SyntaxError);
+  });
+});
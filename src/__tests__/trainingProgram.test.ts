@@ -0,0 +1,182 @@
+import { requireNativeModule } from "expo";
+
+import type { SingleGoalWorkoutConfig } from "../ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "../ReactNativeWorkoutsModule";
+import {
+  configureWorkoutMetadataStorage,
+  createMemoryMetadataStorage,
+} from "../scheduledMetadata";
+import type { MockWorkoutsModule } from "../testing";
+import {
+  type TrainingProgram,
+  getTrainingProgramProgress,
+  scheduleProgram,
+  unscheduleProgram,
+} from "../trainingProgram";
+
+jest.mock("expo", () => {
+  const native = jest
+    .requireActual("../testing")
+    .createMockWorkoutsModule({ authorizationStatus: "authorized" });
+  return {
+    NativeModule: class {},
+    SharedObject: class {},
+    requireNativeModule: () => native,
+  };
+});
+// Programs are tracked through the metadata the iOS wrapper records and joins; use it everywhere.
+jest.mock("../ReactNativeWorkoutsModule", () =>
+  jest.requireActual("../ReactNativeWorkoutsModule.ts"),
+);
+
+const mock = requireNativeModule("ReactNativeWorkouts") as MockWorkoutsModule;
+const createPlan = mock.createSingleGoalWorkoutPlan;
+// Spied before the wrapper first reads it, so tests can swap in a failing plan.
+const createSingleGoalWorkoutPlan = jest.spyOn(
+  mock,
+  "createSingleGoalWorkoutPlan",
+);
+
+const easyRun: SingleGoalWorkoutConfig = {
+  activityType: "running",
+  goal: { type: "distance", value: 5, unit: "kilometers" },
+};
+
+const program: TrainingProgram = {
+  id: "base-5k",
+  start: { year: 2026, month: 10, day: 19, hour: 7 },
+  weeks: [
+    {
+      slots: [
+        { day: 0, workout: { kind: "singleGoal", config: easyRun } },
+        { day: 2, workout: { kind: "singleGoal", config: easyRun } },
+      ],
+    },
+    { slots: [{ day: 0, workout: { kind: "singleGoal", config: easyRun } }] },
+  ],
+};
+
+const now = new Date(2026, 9, 19, 6, 0);
+const firstSlot = { year: 2026, month: 10, day: 19, hour: 7, minute: 0 };
+
+async function scheduleUnrelatedWorkout() {
+  const plan = await ReactNativeWorkouts.createSingleGoalWorkoutPlan(easyRun);
+  const { id } = await plan.scheduleAndSync(firstSlot);
+  plan.release();
+  return id;
+}
+
+let storage = createMemoryMetadataStorage();
+
+beforeEach(() => {
+  mock.reset();
+  storage = createMemoryMetadataStorage();
+  configureWorkoutMetadataStorage(storage);
+});
+
+describe("scheduleProgram", () => {
+  it("ignores workouts the program didn't schedule in its slots", async () => {
+    const unrelatedId = await scheduleUnrelatedWorkout();
+
+    const result = await scheduleProgram(program, { now });
+    expect(result.scheduled).toHaveLength(3);
+    expect(result.alreadyScheduled).toEqual([]);
+
+    const scheduled = await ReactNativeWorkouts.getScheduledWorkouts();
+    expect(scheduled).toHaveLength(4);
+    const progress = getTrainingProgramProgress(program, scheduled, now);
+    expect(progress.scheduled).toBe(3);
+    expect(
+      progress.occurrences.map((occurrence) => occurrence.scheduledId),
+    ).not.toContain(unrelatedId);
+  });
+
+  it("skips occurrences it already scheduled", async () => {
+    await scheduleProgram(program, { now });
+    const again = await scheduleProgram(program, { now });
+    expect(again.scheduled).toEqual([]);
+    expect(again.alreadyScheduled).toHaveLength(3);
+    expect(mock.scheduledWorkouts).toHaveLength(3);
+  });
+
+  it("removes what it scheduled when an occurrence fails", async () => {
+    createSingleGoalWorkoutPlan
+      .mockImplementationOnce(createPlan)
+      .mockImplementationOnce(async (config) =>
+        Object.assign(await createPlan(config), {
+          scheduleAndSync: () => Promise.reject(new Error("Watch unreachable")),
+        }),
+      );
+
+    await expect(scheduleProgram(program, { now })).rejects.toThrow(
+      "Watch unreachable",
+    );
+    expect(mock.scheduledWorkouts).toEqual([]);
+  });
+
+  it("removes what it scheduled when the program can't be recorded", async () => {
+    configureWorkoutMetadataStorage({
+      getItem: () => null,
+      setItem: () => {
+        throw new Error("Disk full");
+      },
+    });
+
+    await expect(scheduleProgram(program, { now })).rejects.toThrow(
+      "Disk full",
+    );
+    expect(mock.scheduledWorkouts).toEqual([]);
+  });
+
+  it("needs a workout per slot when slots share a time", async () => {
+    const doubled: TrainingProgram = {
+      id: "doubles",
+      start: program.start,
+      weeks: [
+        {
+          slots: [
+            { day: 0, workout: { kind: "singleGoal", config: easyRun } },
+            { day: 0, workout: { kind: "singleGoal", config: easyRun } },
+          ],
+        },
+      ],
+    };
+    const first = await scheduleProgram(doubled, { now });
+    expect(first.scheduled).toHaveLength(2);
+
+    const [removed] = mock.scheduledWorkouts;
+    await ReactNativeWorkouts.removeScheduledWorkout(removed.id, removed.date);
+    const progress = getTrainingProgramProgress(
+      doubled,
+      await ReactNativeWorkouts.getScheduledWorkouts(),
+      now,
+    );
+    expect(progress.scheduled).toBe(1);
+    expect(progress.pending).toBe(1);
+
+    const again = await scheduleProgram(doubled, { now });
+    expect(again.scheduled).toHaveLength(1);
+    expect(again.alreadyScheduled).toHaveLength(1);
+    expect(mock.scheduledWorkouts).toHaveLength(2);
+  });
+});
+
+describe("unscheduleProgram", () => {
+  it("removes only the program's workouts, by ID after a restart", async () => {
+    const unrelatedId = await scheduleUnrelatedWorkout();
+    await scheduleProgram(program, { now });
+
+    // A new session reads the registry back from storage.
+    configureWorkoutMetadataStorage(storage);
+    await expect(unscheduleProgram(program.id)).resolves.toBe(3);
+    expect(mock.scheduledWorkouts.map((workout) => workout.id)).toEqual([
+      unrelatedId,
+    ]);
+  });
+
+  it("resolves with 0 for a program with nothing scheduled", async () => {
+    await scheduleUnrelatedWorkout();
+    await expect(unscheduleProgram("unknown")).resolves.toBe(0);
+    expect(mock.scheduledWorkouts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,128 @@
+import type {
+  CustomWorkoutConfig,
+  DistanceTimePacerTarget,
+  PacerWorkoutConfig,
+} from "../ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "../ReactNativeWorkoutsModule";
+import { createWorkoutPlanFromExport } from "../planExport";
+import {
+  convertPace,
+  convertWorkoutUnits,
+  getPacerTargetRates,
+  normalizeWorkoutConfig,
+  paceToSpeed,
+} from "../unitConversion";
+
+jest.mock("../ReactNativeWorkoutsModule", () => ({
+  __esModule: true,
+  default: jest.requireActual("../testing").createMockWorkoutsModule(),
+}));
+
+const tempo: CustomWorkoutConfig = {
+  activityType: "running",
+  blocks: [
+    {
+      steps: [
+        {
+          purpose: "work",
+          goal: { type: "distance", value: 5, unit: "km" },
+          alert: { type: "pace", min: 4.5, max: 5, unit: "min/km" },
+        },
+        {
+          purpose: "recovery",
+          goal: { type: "time", value: 2, unit: "min" },
+          alert: { type: "heartRate", zone: 2 },
+        },
+      ],
+    },
+  ],
+};
+
+describe("convertWorkoutUnits", () => {
+  it("converts distances and paces, and leaves time and heart rate alone", () => {
+    const imperial = convertWorkoutUnits(tempo, "imperial");
+    expect(imperial.blocks[0].steps).toEqual([
+      {
+        purpose: "work",
+        goal: { type: "distance", value: 3.11, unit: "miles" },
+        alert: { type: "pace", min: 7.24, max: 8.05, unit: "minutesPerMile" },
+      },
+      {
+        purpose: "recovery",
+        goal: { type: "time", value: 2, unit: "minutes" },
+        alert: { type: "heartRate", zone: 2 },
+      },
+    ]);
+  });
+
+  it("round-trips back to the normalized config", () => {
+    const imperial = convertWorkoutUnits(tempo, "imperial");
+    expect(convertWorkoutUnits(imperial, "metric", { precision: 1 })).toEqual(
+      normalizeWorkoutConfig(tempo),
+    );
+  });
+});
+
+describe("rate helpers", () => {
+  it("converts paces and speeds", () => {
+    expect(convertPace(5, "min/km", "min/mi")).toBeCloseTo(8.047, 3);
+    expect(paceToSpeed(5, "min/km", "km/h")).toBeCloseTo(12);
+  });
+
+  it("derives pace and speed from a distance and time", () => {
+    const rates = getPacerTargetRates(
+      {
+        type: "distanceTime",
+        distance: 5,
+        distanceUnit: "km",
+        time: 24.5,
+        timeUnit: "minutes",
+      },
+      { speedUnit: "km/h" },
+    );
+    expect(rates.pace).toBeCloseTo(4.9);
+    expect(rates.paceUnit).toBe("minutesPerKilometer");
+    expect(rates.speed).toBeCloseTo(12.245, 3);
+    expect(rates.speedUnit).toBe("kilometersPerHour");
+  });
+
+  it.each([
+    { distance: 0, time: 24.5 },
+    { distance: 5, time: 0 },
+    { distance: Infinity, time: 24.5 },
+  ])("rejects a distance and time that aren't positive: %o", (target) => {
+    expect(() =>
+      getPacerTargetRates({ type: "distanceTime", ...target }),
+    ).toThrow("Pacer distance and time must be positive numbers");
+  });
+
+  it("rejects a pace or speed of 0 and units of the wrong kind", () => {
+    expect(() => getPacerTargetRates({ type: "speed", value: 0 })).toThrow(
+      "Pacer speed must be a positive number, got 0",
+    );
+    expect(() =>
+      getPacerTargetRates({ type: "pace", value: 5, unit: "km/h" }),
+    ).toThrow('Unknown pace unit "km/h"');
+  });
+
+  it("gives the same rates for a distance/time target after a plan export round trip", async () => {
+    const target: DistanceTimePacerTarget = {
+      type: "distanceTime",
+      distance: 10,
+      distanceUnit: "mi",
+      time: 75,
+      timeUnit: "min",
+    };
+    const config: PacerWorkoutConfig = { activityType: "running", target };
+    const plan = await ReactNativeWorkouts.createPacerWorkoutPlan(config);
+    const copy = await createWorkoutPlanFromExport(
+      JSON.parse(JSON.stringify(plan.export())),
+    );
+
+    const exported = copy.export().config as PacerWorkoutConfig;
+    expect(exported).toEqual(config);
+    expect(
+      getPacerTargetRates(exported.target as DistanceTimePacerTarget),
+    ).toEqual(getPacerTargetRates(target));
+  });
+});
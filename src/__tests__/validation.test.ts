@@ -0,0 +1,107 @@
+import type { WorkoutPlanKind } from "../ReactNativeWorkouts.types";
+import { validateWorkoutConfig } from "../validation";
+
+const codes = (kind: WorkoutPlanKind, config: unknown) =>
+  validateWorkoutConfig(kind, config).issues.map(
+    (issue) => `${issue.path}: ${issue.code}`,
+  );
+
+describe("validateWorkoutConfig", () => {
+  it("accepts types and units in any case, like native", () => {
+    expect(
+      validateWorkoutConfig("custom", {
+        activityType: "Running",
+        locationType: "OUTDOOR",
+        blocks: [
+          {
+            steps: [
+              {
+                purpose: "Work",
+                goal: { type: "Distance", value: 5, unit: "KM" },
+                alert: { type: "Speed", min: 10, max: 12, unit: "Km/h" },
+              },
+              {
+                purpose: "recovery",
+                goal: { type: "time", value: 2, unit: "MIN" },
+                alert: { type: "HEARTRATE", zone: 2 },
+              },
+            ],
+          },
+        ],
+      }),
+    ).toEqual({ valid: true, issues: [] });
+  });
+
+  it("still checks the goal of a differently cased type", () => {
+    expect(
+      codes("singleGoal", {
+        activityType: "running",
+        goal: { type: "Distance", value: 0, unit: "km" },
+      }),
+    ).toEqual(["goal.value: outOfRange"]);
+  });
+
+  it("reports unknown units and values", () => {
+    expect(
+      codes("pacer", {
+        activityType: "skating",
+        target: {
+          type: "distanceTime",
+          distance: 5,
+          distanceUnit: "leagues",
+          time: 20,
+          timeUnit: "min",
+        },
+      }),
+    ).toEqual([
+      "activityType: unknownValue",
+      "target.distanceUnit: unknownUnit",
+    ]);
+  });
+
+  it("matches zone names exactly, since they are resolved in JS", () => {
+    const { issues } = validateWorkoutConfig("custom", {
+      activityType: "cycling",
+      blocks: [
+        {
+          steps: [
+            {
+              purpose: "work",
+              goal: { type: "time", value: 60 },
+              alert: { type: "power", zone: "Threshold" },
+            },
+          ],
+        },
+      ],
+    });
+    expect(issues.map((issue) => issue.code)).toEqual([
+      "unknownValue",
+      "unresolved",
+    ]);
+  });
+
+  it.each([
+    { zone: "threshold", min: 200 },
+    { zone: "threshold", minPercentFtp: 90 },
+    { zone: "threshold", maxPercentFtp: 110 },
+  ])("rejects a power zone combined with other targets: %o", (target) => {
+    const { issues } = validateWorkoutConfig("custom", {
+      activityType: "cycling",
+      blocks: [
+        {
+          steps: [
+            {
+              purpose: "work",
+              goal: { type: "time", value: 60 },
+              alert: { type: "power", ...target },
+            },
+          ],
+        },
+      ],
+    });
+    expect(issues.map((issue) => issue.code)).toEqual([
+      "conflict",
+      "unresolved",
+    ]);
+  });
+});
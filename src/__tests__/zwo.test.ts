@@ -0,0 +1,237 @@
+import type { CustomWorkoutConfig } from "../ReactNativeWorkouts.types";
+import { exportZwo, importZwo } from "../zwo";
+
+const FTP = 250;
+
+const intervals: CustomWorkoutConfig = {
+  activityType: "cycling",
+  displayName: "4x4",
+  warmup: {
+    goal: { type: "time", value: 600, unit: "seconds" },
+    alert: { type: "power", min: 125, max: 175 },
+  },
+  blocks: [
+    {
+      iterations: 4,
+      steps: [
+        {
+          purpose: "work",
+          goal: { type: "time", value: 240, unit: "seconds" },
+          alert: { type: "power", min: 250, max: 250 },
+        },
+        {
+          purpose: "recovery",
+          goal: { type: "time", value: 180, unit: "seconds" },
+          alert: { type: "power", min: 125, max: 125 },
+        },
+      ],
+    },
+  ],
+  cooldown: {
+    goal: { type: "time", value: 300, unit: "seconds" },
+    alert: { type: "power", min: 100, max: 150 },
+  },
+};
+
+describe("exportZwo", () => {
+  it("writes warmup, IntervalsT and cooldown segments", () => {
+    const { xml, warnings } = exportZwo(intervals, { ftp: FTP });
+    expect(warnings).toEqual([]);
+    expect(xml).toContain("<name>4x4</name>");
+    expect(xml).toContain(
+      '<Warmup Duration="600" PowerLow="0.5" PowerHigh="0.7"/>',
+    );
+    expect(xml).toContain(
+      '<IntervalsT Repeat="4" OnDuration="240" OffDuration="180" OnPower="1" OffPower="0.5"/>',
+    );
+    expect(xml).toContain(
+      '<Cooldown Duration="300" PowerLow="0.6" PowerHigh="0.4"/>',
+    );
+  });
+
+  it("warns once per step when a power range is collapsed in an unrolled block", () => {
+    const { xml, warnings } = exportZwo(
+      {
+        activityType: "cycling",
+        blocks: [
+          {
+            iterations: 3,
+            steps: [
+              {
+                purpose: "work",
+                goal: { type: "time", value: 60 },
+                alert: { type: "power", min: 200, max: 300 },
+              },
+            ],
+          },
+        ],
+      },
+      { ftp: FTP },
+    );
+    expect(xml.match(/<SteadyState Duration="60" Power="1"\/>/g)).toHaveLength(
+      3,
+    );
+    expect(warnings).toEqual([
+      { path: "blocks[0]", message: expect.stringContaining("unrolled") },
+      {
+        path: "blocks[0].steps[0].alert",
+        message: expect.stringContaining("80–120% FTP"),
+      },
+    ]);
+  });
+
+  it("warns when IntervalsT collapses a power range", () => {
+    const { warnings } = exportZwo(
+      {
+        ...intervals,
+        warmup: undefined,
+        cooldown: undefined,
+        blocks: [
+          {
+            iterations: 2,
+            steps: [
+              {
+                purpose: "work",
+                goal: { type: "time", value: 60 },
+                alert: { type: "power", minPercentFtp: 90, maxPercentFtp: 110 },
+              },
+              { purpose: "recovery", goal: { type: "time", value: 60 } },
+            ],
+          },
+        ],
+      },
+      { ftp: FTP },
+    );
+    expect(warnings.map((warning) => warning.path)).toEqual([
+      "blocks[0].steps[0].alert",
+    ]);
+  });
+
+  it("reports steps ZWO can't express", () => {
+    const { warnings } = exportZwo(
+      {
+        activityType: "running",
+        blocks: [
+          {
+            steps: [
+              {
+                purpose: "work",
+                goal: { type: "distance", value: 1, unit: "km" },
+              },
+              {
+                purpose: "work",
+                goal: { type: "time", value: 60 },
+                alert: { type: "heartRate", zone: 2 },
+              },
+            ],
+          },
+        ],
+      },
+      { ftp: FTP },
+    );
+    expect(warnings.map((warning) => warning.path)).toEqual([
+      "activityType",
+      "blocks[0].steps[0].goal",
+      "blocks[0].steps[1].alert",
+    ]);
+  });
+
+  it("keeps cadence targets of warmups and cooldowns without power", () => {
+    const { xml, warnings } = exportZwo(
+      {
+        activityType: "cycling",
+        warmup: {
+          goal: { type: "time", value: 300 },
+          alert: { type: "cadence", min: 85, max: 95 },
+        },
+        blocks: [],
+        cooldown: {
+          goal: { type: "time", value: 300 },
+          alert: { type: "cadence", min: 80, max: 80 },
+        },
+      },
+      { ftp: FTP },
+    );
+    expect(xml).toContain('<FreeRide Duration="300" Cadence="90"/>');
+    expect(xml).toContain('<FreeRide Duration="300" Cadence="80"/>');
+    expect(warnings).toEqual([
+      {
+        path: "warmup.alert",
+        message:
+          "Cadence range 85–95 rpm was collapsed to its midpoint (90 rpm)",
+      },
+    ]);
+  });
+
+  it("rejects an invalid FTP", () => {
+    expect(() => exportZwo(intervals, { ftp: 0 })).toThrow(/FTP/);
+  });
+});
+
+describe("importZwo", () => {
+  it("round-trips an exported workout", () => {
+    const { xml } = exportZwo(intervals, { ftp: FTP });
+    const { config } = importZwo(xml, { ftp: FTP, powerTolerance: 0 });
+    expect(config).toEqual(intervals);
+  });
+
+  it("reports ramps, cadence targets and unknown segments", () => {
+    const { config, warnings } = importZwo(
+      `<workout_file>
+        <sportType>run</sportType>
+        <workout>
+          <SteadyState Duration="60" Power="0.8" Cadence="90"/>
+          <Ramp Duration="60" PowerLow="0.5" PowerHigh="1"/>
+          <Unknown Duration="60"/>
+          <FreeRide/>
+        </workout>
+      </workout_file>`,
+      { ftp: FTP },
+    );
+    expect(config.blocks).toHaveLength(1);
+    expect(config.cooldown).toBeUndefined();
+    expect(warnings.map((warning) => warning.path)).toEqual([
+      "sportType",
+      "workout[0]",
+      "workout[1]",
+      "workout[1]",
+      "workout[2]",
+      "workout[3]",
+    ]);
+  });
+
+  it("approximates IntervalsT power ramps by a range", () => {
+    const { config, warnings } = importZwo(
+      `<workout_file>
+        <workout>
+          <IntervalsT Repeat="3" OnDuration="60" OffDuration="60"
+            PowerOnLow="0.9" PowerOnHigh="1.1" PowerOffLow="0.5" PowerOffHigh="0.5"/>
+        </workout>
+      </workout_file>`,
+      { ftp: FTP, powerTolerance: 0 },
+    );
+    expect(config.blocks[0].steps.map((step) => step.alert)).toEqual([
+      { type: "power", min: 225, max: 275 },
+      { type: "power", min: 125, max: 125 },
+    ]);
+    expect(warnings).toEqual([
+      {
+        path: "workout[0]",
+        message:
+          "Power ramp of IntervalsT On intervals approximated by a constant power range",
+      },
+    ]);
+  });
+
+  it("rejects documents that aren't ZWO workouts", () => {
+    expect(() => importZwo("<workout/>", { ftp: FTP })).toThrow(
+      /Not a ZWO file/,
+    );
+    expect(() => importZwo("<workout_file/>", { ftp: FTP })).toThrow(
+      /missing <workout>/,
+    );
+    expect(() => importZwo("<workout_file><workout>", { ftp: FTP })).toThrow(
+      /Invalid XML/,
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import type {
+  AthleteProfile,
+  HeartRateRangeAlert,
+  PaceAlert,
+  PowerAlert,
+} from "./ReactNativeWorkouts.types";
+import { canonicalPaceUnit } from "./units";
+
+/**
+ * Which athlete threshold a percentage target is relative to.
+ */
+export type ThresholdMetric =
+  | "ftp"
+  | "thresholdHeartRate"
+  | "maxHeartRate"
+  | "thresholdPace";
+
+export type PercentTargetAlert = PowerAlert | HeartRateRangeAlert | PaceAlert;
+
+function ordered(a: number, b: number): [number, number] {
+  return a <= b ? [a, b] : [b, a];
+}
+
+/**
+ * Resolves a `minPercent..maxPercent` target against the athlete's threshold.
+ *
+ * Percent of threshold pace follows the usual convention of percent of threshold *speed*, so
+ * 105% is faster than threshold. Returns `null` when the profile lacks the threshold.
+ */
+export function resolvePercentTarget(
+  metric: ThresholdMetric,
+  minPercent: number,
+  maxPercent: number,
+  athlete: AthleteProfile,
+): PercentTargetAlert | null {
+  const [low, high] = ordered(minPercent, maxPercent);
+
+  switch (metric) {
+    case "ftp":
+      if (!athlete.ftp) return null;
+      return {
+        type: "power",
+        min: Math.round((low / 100) * athlete.ftp),
+        max: Math.round((high / 100) * athlete.ftp),
+      };
+    case "thresholdHeartRate":
+    case "maxHeartRate": {
+      const reference = athlete[metric];
+      if (!reference) return null;
+      return {
+        type: "heartRate",
+        min: Math.round((low / 100) * reference),
+        max: Math.round((high / 100) * reference),
+      };
+    }
+    case "thresholdPace": {
+      const threshold = athlete.thresholdPace;
+      if (!threshold || low <= 0) return null;
+      // Higher percentage of speed = faster = fewer minutes per unit.
+      return {
+        type: "pace",
+        min: threshold.value / (high / 100),
+        max: threshold.value / (low / 100),
+        unit: canonicalPaceUnit(threshold.unit),
+      };
+    }
+  }
+}
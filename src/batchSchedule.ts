@@ -0,0 +1,124 @@
+import type { DateComponents, WorkoutPlan } from "./ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
+import { type WorkoutsError, toWorkoutsError } from "./errors";
+
+export interface ScheduleManyItem {
+  plan: WorkoutPlan;
+  date: DateComponents;
+}
+
+export interface ScheduleManyOptions {
+  /**
+   * How many items are scheduled at the same time. Defaults to 1 (in order).
+   */
+  concurrency?: number;
+  /**
+   * All or nothing: when an item fails, items not started yet are skipped and the ones already
+   * scheduled are removed again. Defaults to `false`.
+   */
+  atomic?: boolean;
+}
+
+/**
+ * - `scheduled`: on the Watch.
+ * - `failed`: `scheduleAndSync` rejected (see `error`).
+ * - `skipped`: not attempted because an earlier item failed in atomic mode.
+ * - `rolledBack`: was scheduled, then removed because another item failed in atomic mode.
+ * - `rollbackFailed`: was scheduled, and removing it in atomic mode failed (see `error`); it is
+ *   still on the Watch.
+ */
+export type ScheduleManyItemStatus =
+  | "scheduled"
+  | "failed"
+  | "skipped"
+  | "rolledBack"
+  | "rollbackFailed";
+
+export interface ScheduleManyItemResult {
+  status: ScheduleManyItemStatus;
+  /**
+   * ID of the scheduled workout (set for `scheduled`, `rolledBack` and `rollbackFailed`).
+   */
+  id?: string;
+  date: DateComponents;
+  /**
+   * Why scheduling failed, or, for `rollbackFailed`, why removing the workout again did.
+   */
+  error?: WorkoutsError;
+}
+
+export interface ScheduleManyResult {
+  /**
+   * One result per input item, in input order.
+   */
+  items: ScheduleManyItemResult[];
+  scheduled: number;
+  failed: number;
+  /**
+   * `true` when atomic mode removed every item that had been scheduled (none is
+   * `rollbackFailed`).
+   */
+  rolledBack: boolean;
+}
+
+/**
+ * Schedules several plans and reports success or failure per item instead of rejecting.
+ *
+ * In atomic mode the first failure stops the batch: items that haven't started are `skipped`
+ * and the already scheduled ones are removed (`rolledBack`, or `rollbackFailed` if removing one
+ * fails).
+ */
+export async function scheduleMany(
+  items: ScheduleManyItem[],
+  options: ScheduleManyOptions = {},
+): Promise<ScheduleManyResult> {
+  const { atomic = false } = options;
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+  const results: ScheduleManyItemResult[] = items.map(({ date }) => ({
+    status: "skipped",
+    date,
+  }));
+
+  let next = 0;
+  let aborted = false;
+  const worker = async () => {
+    while (next < items.length && !aborted) {
+      const index = next++;
+      const { plan, date } = items[index];
+      try {
+        const { id } = await plan.scheduleAndSync(date);
+        results[index] = { status: "scheduled", id, date };
+      } catch (e) {
+        results[index] = { status: "failed", date, error: toWorkoutsError(e) };
+        aborted = atomic;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+
+  if (aborted) {
+    for (const result of results) {
+      if (result.status !== "scheduled") continue;
+      try {
+        await ReactNativeWorkouts.removeScheduledWorkout(
+          result.id!,
+          result.date,
+        );
+        result.status = "rolledBack";
+      } catch (e) {
+        result.status = "rollbackFailed";
+        result.error = toWorkoutsError(e);
+      }
+    }
+  }
+
+  return {
+    items: results,
+    scheduled: results.filter((result) => result.status === "scheduled").length,
+    failed: results.filter((result) => result.status === "failed").length,
+    rolledBack:
+      aborted && results.every((result) => result.status !== "rollbackFailed"),
+  };
+}
@@ -0,0 +1,235 @@
+import type {
+  ActivityType,
+  CadenceAlert,
+  CustomWorkoutConfig,
+  DistanceGoal,
+  DistanceUnit,
+  EnergyGoal,
+  EnergyUnit,
+  HeartRateRangeAlert,
+  HeartRateZoneAlert,
+  IntervalBlock,
+  IntervalStep,
+  LocationType,
+  OpenGoal,
+  PaceAlert,
+  PaceUnit,
+  PaceZoneAlert,
+  PaceZoneName,
+  PercentFtpPowerAlert,
+  PowerAlert,
+  PowerZoneAlert,
+  PowerZoneName,
+  SpeedAlert,
+  SpeedUnit,
+  StepPurpose,
+  TimeGoal,
+  TimeUnit,
+  WorkoutAlert,
+  WorkoutGoal,
+  WorkoutStep,
+} from "./ReactNativeWorkouts.types";
+
+// Goals
+
+export function open(): OpenGoal {
+  return { type: "open" };
+}
+
+export function distance(value: number, unit?: DistanceUnit): DistanceGoal {
+  return unit ? { type: "distance", value, unit } : { type: "distance", value };
+}
+
+export function time(value: number, unit?: TimeUnit): TimeGoal {
+  return unit ? { type: "time", value, unit } : { type: "time", value };
+}
+
+export function energy(value: number, unit?: EnergyUnit): EnergyGoal {
+  return unit ? { type: "energy", value, unit } : { type: "energy", value };
+}
+
+// Alerts
+
+export function heartRateZone(zone: number): HeartRateZoneAlert {
+  return { type: "heartRate", zone };
+}
+
+export function heartRate(min: number, max: number): HeartRateRangeAlert {
+  return { type: "heartRate", min, max };
+}
+
+export function pace(min: number, max: number, unit?: PaceUnit): PaceAlert {
+  return unit ? { type: "pace", min, max, unit } : { type: "pace", min, max };
+}
+
+export function paceZone(
+  zone: PaceZoneName,
+  offsetSeconds?: number,
+  unit?: PaceUnit,
+): PaceZoneAlert {
+  return {
+    type: "pace",
+    zone,
+    ...(offsetSeconds !== undefined && { offsetSeconds }),
+    ...(unit && { unit }),
+  };
+}
+
+export function speed(min: number, max: number, unit?: SpeedUnit): SpeedAlert {
+  return unit ? { type: "speed", min, max, unit } : { type: "speed", min, max };
+}
+
+export function cadence(min: number, max: number): CadenceAlert {
+  return { type: "cadence", min, max };
+}
+
+export function power(min: number, max: number): PowerAlert {
+  return { type: "power", min, max };
+}
+
+export function percentFtp(
+  minPercentFtp: number,
+  maxPercentFtp: number,
+): PercentFtpPowerAlert {
+  return { type: "power", minPercentFtp, maxPercentFtp };
+}
+
+export function powerZone(zone: PowerZoneName): PowerZoneAlert {
+  return { type: "power", zone };
+}
+
+function makeStep(goal?: WorkoutGoal, alert?: WorkoutAlert): WorkoutStep {
+  const step: WorkoutStep = {};
+  if (goal) step.goal = goal;
+  if (alert) step.alert = alert;
+  return step;
+}
+
+/**
+ * Collects the steps of a single `IntervalBlock`. Obtained via `WorkoutBuilder.repeat(...)` /
+ * `WorkoutBuilder.block(...)`.
+ */
+export class IntervalBlockBuilder {
+  private readonly steps: IntervalStep[] = [];
+
+  step(purpose: StepPurpose, goal?: WorkoutGoal, alert?: WorkoutAlert): this {
+    this.steps.push({ purpose, ...makeStep(goal, alert) });
+    return this;
+  }
+
+  work(goal?: WorkoutGoal, alert?: WorkoutAlert): this {
+    return this.step("work", goal, alert);
+  }
+
+  recovery(goal?: WorkoutGoal, alert?: WorkoutAlert): this {
+    return this.step("recovery", goal, alert);
+  }
+
+  /** @internal */
+  toBlock(iterations?: number): IntervalBlock {
+    const steps = this.steps.map((step) => ({ ...step }));
+    return iterations === undefined ? { steps } : { iterations, steps };
+  }
+}
+
+/**
+ * Chainable builder for `CustomWorkoutConfig`.
+ *
+ * @example
+ * ```ts
+ * const config = workout("running")
+ *   .outdoor()
+ *   .named("Track 4x400")
+ *   .warmup(time(5, "min"))
+ *   .repeat(4, (b) =>
+ *     b.work(distance(400, "m"), pace(4, 5, "min/km")).recovery(time(90, "s")),
+ *   )
+ *   .cooldown(time(5, "min"))
+ *   .build();
+ * ```
+ */
+export class WorkoutBuilder {
+  private locationType?: LocationType;
+  private displayName?: string;
+  private warmupStep?: WorkoutStep;
+  private cooldownStep?: WorkoutStep;
+  private readonly blocks: IntervalBlock[] = [];
+
+  constructor(private readonly activityType: ActivityType) {}
+
+  location(locationType: LocationType): this {
+    this.locationType = locationType;
+    return this;
+  }
+
+  indoor(): this {
+    return this.location("indoor");
+  }
+
+  outdoor(): this {
+    return this.location("outdoor");
+  }
+
+  named(displayName: string): this {
+    this.displayName = displayName;
+    return this;
+  }
+
+  warmup(goal?: WorkoutGoal, alert?: WorkoutAlert): this {
+    this.warmupStep = makeStep(goal, alert);
+    return this;
+  }
+
+  cooldown(goal?: WorkoutGoal, alert?: WorkoutAlert): this {
+    this.cooldownStep = makeStep(goal, alert);
+    return this;
+  }
+
+  /**
+   * Appends an interval block that runs `iterations` times.
+   */
+  repeat(
+    iterations: number,
+    define: (block: IntervalBlockBuilder) => unknown,
+  ): this {
+    const block = new IntervalBlockBuilder();
+    define(block);
+    this.blocks.push(block.toBlock(iterations));
+    return this;
+  }
+
+  /**
+   * Appends an interval block without an explicit iteration count (runs once).
+   */
+  block(define: (block: IntervalBlockBuilder) => unknown): this {
+    const block = new IntervalBlockBuilder();
+    define(block);
+    this.blocks.push(block.toBlock());
+    return this;
+  }
+
+  /**
+   * Returns a fresh config object. The builder can keep being used afterwards.
+   */
+  build(): CustomWorkoutConfig {
+    // Keys follow the `CustomWorkoutConfig` declaration order so equal workouts serialize equally.
+    return {
+      activityType: this.activityType,
+      ...(this.locationType && { locationType: this.locationType }),
+      ...(this.displayName !== undefined && { displayName: this.displayName }),
+      ...(this.warmupStep && { warmup: { ...this.warmupStep } }),
+      blocks: this.blocks.map((block) => ({
+        ...block,
+        steps: block.steps.map((step) => ({ ...step })),
+      })),
+      ...(this.cooldownStep && { cooldown: { ...this.cooldownStep } }),
+    };
+  }
+}
+
+/**
+ * Starts a `WorkoutBuilder` for the given activity type.
+ */
+export function workout(activityType: ActivityType): WorkoutBuilder {
+  return new WorkoutBuilder(activityType);
+}
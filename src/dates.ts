@@ -0,0 +1,67 @@
+import type { DateComponents } from "./ReactNativeWorkouts.types";
+
+// Helpers for the `DateComponents` the scheduling APIs take, always in the device's local time.
+
+/**
+ * Local `Date` for `components`, or `undefined` if `year`, `month` or `day` is missing or the
+ * day doesn't exist (e.g. February 30th). `hour` and `minute` default to 0.
+ */
+export function dateFromComponents(
+  components: DateComponents,
+): Date | undefined {
+  const { year, month, day, hour = 0, minute = 0 } = components;
+  if (year === undefined || month === undefined || day === undefined) {
+    return undefined;
+  }
+  const date = new Date(year, month - 1, day, hour, minute);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return undefined;
+  }
+  return date;
+}
+
+export function dateToComponents(date: Date): DateComponents {
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+  };
+}
+
+/**
+ * Whether two schedule dates are the same minute (missing fields must be missing in both).
+ */
+export function isSameScheduledDate(
+  a: DateComponents,
+  b: DateComponents,
+): boolean {
+  return (
+    a.year === b.year &&
+    a.month === b.month &&
+    a.day === b.day &&
+    a.hour === b.hour &&
+    a.minute === b.minute
+  );
+}
+
+function dateKey({
+  year = 0,
+  month = 0,
+  day = 0,
+  hour = 0,
+  minute = 0,
+}: DateComponents): number {
+  return (((year * 100 + month) * 100 + day) * 100 + hour) * 100 + minute;
+}
+
+/**
+ * Sort comparator for `DateComponents` (chronological).
+ */
+export function compareDateComponents(
+  a: DateComponents,
+  b: DateComponents,
+): number {
+  return dateKey(a) - dateKey(b);
+}
@@ -0,0 +1,201 @@
+import type {
+  AthleteProfile,
+  CustomWorkoutConfig,
+  IntervalStep,
+  PowerAlert,
+  WorkoutFileWarning,
+} from "./ReactNativeWorkouts.types";
+
+export interface ErgImportOptions {
+  /**
+   * Used to resolve `.mrc` percentages. `athlete.ftp` takes precedence over an `FTP = ...`
+   * line in the course header.
+   */
+  athlete?: AthleteProfile;
+  /**
+   * Half-width of the watts range built around constant-power segments, as a fraction of FTP
+   * (or of the target itself when FTP is unknown). Defaults to `0.03`.
+   */
+  powerTolerance?: number;
+  displayName?: string;
+}
+
+export interface ErgImportResult {
+  config: CustomWorkoutConfig;
+  warnings: WorkoutFileWarning[];
+}
+
+const DEFAULT_POWER_TOLERANCE = 0.03;
+
+type ErgMode = "watts" | "percent";
+
+interface CoursePoint {
+  minutes: number;
+  value: number;
+  line: number;
+}
+
+interface ErgCourse {
+  header: Record<string, string>;
+  mode: ErgMode | null;
+  points: CoursePoint[];
+  hasText: boolean;
+}
+
+function parseCourse(text: string): ErgCourse {
+  const course: ErgCourse = {
+    header: {},
+    mode: null,
+    points: [],
+    hasText: false,
+  };
+  let section: string | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    const lineNumber = index + 1;
+    if (line === "" || line.startsWith(";")) return;
+
+    const sectionMatch = /^\[(.+)\]$/.exec(line);
+    if (sectionMatch) {
+      const name = sectionMatch[1].trim().toUpperCase();
+      section = name.startsWith("END ") ? null : name;
+      if (section === "COURSE TEXT") course.hasText = true;
+      return;
+    }
+
+    if (section === "COURSE HEADER") {
+      const columns = /^MINUTES\s+(WATTS|PERCENT)\b/i.exec(line);
+      if (columns) {
+        course.mode = columns[1].toLowerCase() as ErgMode;
+        return;
+      }
+      const entry = /^([^=]+)=(.*)$/.exec(line);
+      if (entry) {
+        course.header[entry[1].trim().toUpperCase()] = entry[2].trim();
+      }
+    } else if (section === "COURSE DATA") {
+      const [minutes, value] = line.split(/\s+/).map(Number);
+      if (!Number.isFinite(minutes) || !Number.isFinite(value)) {
+        throw new Error(`Invalid course data at line ${lineNumber}: "${line}"`);
+      }
+      course.points.push({ minutes, value, line: lineNumber });
+    }
+  });
+
+  return course;
+}
+
+/**
+ * Converts an ERG (watts) or MRC (percent of FTP) course file into a cycling
+ * `CustomWorkoutConfig`.
+ *
+ * Course data is a list of `minutes value` points joined by straight lines. Two points at the
+ * same time mark a step change, so each flat segment becomes a timed work step in a single
+ * block. Sloped segments (ramps) are approximated by a watts range covering start and end
+ * power and reported in `warnings`.
+ *
+ * Throws when the file has no `[COURSE DATA]`, no `MINUTES WATTS`/`MINUTES PERCENT` header,
+ * or is an MRC file without a known FTP.
+ */
+export function importErgMrc(
+  text: string,
+  options: ErgImportOptions = {},
+): ErgImportResult {
+  const course = parseCourse(text);
+  if (course.points.length < 2) {
+    throw new Error("Not an ERG/MRC file: missing [COURSE DATA] points");
+  }
+  if (!course.mode) {
+    throw new Error(
+      "Not an ERG/MRC file: missing MINUTES WATTS or MINUTES PERCENT header",
+    );
+  }
+
+  const headerFtp = Number(course.header.FTP);
+  const ftp =
+    options.athlete?.ftp ??
+    (Number.isFinite(headerFtp) && headerFtp > 0 ? headerFtp : undefined);
+  if (course.mode === "percent" && ftp === undefined) {
+    throw new Error(
+      "MRC files are relative to FTP: pass `athlete.ftp` or add FTP to the course header",
+    );
+  }
+  const tolerance = options.powerTolerance ?? DEFAULT_POWER_TOLERANCE;
+
+  const warnings: WorkoutFileWarning[] = [];
+  if (course.hasText) {
+    warnings.push({
+      path: "COURSE TEXT",
+      message: "Text events are not supported and were dropped",
+    });
+  }
+
+  const toWatts = (value: number) =>
+    course.mode === "percent" ? (value / 100) * ftp! : value;
+
+  const steps: IntervalStep[] = [];
+  for (let i = 1; i < course.points.length; i++) {
+    const start = course.points[i - 1];
+    const end = course.points[i];
+    const path = `COURSE DATA:${start.line}`;
+    const seconds = Math.round((end.minutes - start.minutes) * 60);
+
+    if (end.minutes < start.minutes) {
+      warnings.push({
+        path,
+        message: "Course time goes backwards; segment skipped",
+      });
+      continue;
+    }
+    if (seconds === 0) continue;
+
+    const startWatts = toWatts(start.value);
+    const endWatts = toWatts(end.value);
+    let alert: PowerAlert;
+    if (startWatts === endWatts) {
+      const halfWidth = tolerance * (ftp ?? startWatts);
+      alert = {
+        type: "power",
+        min: Math.max(0, Math.round(startWatts - halfWidth)),
+        max: Math.round(startWatts + halfWidth),
+      };
+    } else {
+      alert = {
+        type: "power",
+        min: Math.round(Math.min(startWatts, endWatts)),
+        max: Math.round(Math.max(startWatts, endWatts)),
+      };
+      warnings.push({
+        path,
+        message: `Power ramp from ${Math.round(startWatts)} W to ${Math.round(
+          endWatts,
+        )} W approximated by a constant power range`,
+      });
+    }
+
+    steps.push({
+      purpose: "work",
+      goal: { type: "time", value: seconds, unit: "seconds" },
+      alert,
+    });
+  }
+
+  if (steps.length === 0) {
+    throw new Error("ERG/MRC course has no segments with a duration");
+  }
+
+  const displayName =
+    options.displayName ??
+    (course.header.DESCRIPTION || course.header["FILE NAME"] || undefined);
+
+  return {
+    config: {
+      activityType: "cycling",
+      locationType: "indoor",
+      ...(displayName && { displayName }),
+      blocks: [{ steps }],
+    },
+    warnings,
+  };
+}
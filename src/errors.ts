@@ -0,0 +1,191 @@
+/**
+ * Names of the exceptions thrown by the native module, plus `"Unknown"` for anything else.
+ */
+export type WorkoutsErrorCode =
+  | "InvalidGoal"
+  | "InvalidTarget"
+  | "InvalidAlert"
+  | "InvalidConfig"
+  | "ValidationError"
+  | "InvalidID"
+  | "NotFound"
+  | "InvalidState"
+  | "NoViewController"
+  | "Unavailable"
+  | "Unknown";
+
+export type WorkoutsConfigErrorCode =
+  | "InvalidGoal"
+  | "InvalidTarget"
+  | "InvalidAlert"
+  | "InvalidConfig"
+  | "ValidationError";
+
+export type WorkoutsNotFoundErrorCode = "InvalidID" | "NotFound";
+
+export type WorkoutsStateErrorCode = "InvalidState" | "NoViewController";
+
+// Expo reports `Exception(name: "NotFound")` as `code: "ERR_NOT_FOUND"` (and drops a trailing
+// "Error" from the name, hence `ERR_VALIDATION`).
+const NATIVE_CODES: Record<string, WorkoutsErrorCode> = {
+  ERR_INVALID_GOAL: "InvalidGoal",
+  ERR_INVALID_TARGET: "InvalidTarget",
+  ERR_INVALID_ALERT: "InvalidAlert",
+  ERR_INVALID_CONFIG: "InvalidConfig",
+  ERR_VALIDATION: "ValidationError",
+  ERR_INVALID_ID: "InvalidID",
+  ERR_NOT_FOUND: "NotFound",
+  ERR_INVALID_STATE: "InvalidState",
+  ERR_NO_VIEW_CONTROLLER: "NoViewController",
+  ERR_UNAVAILABLE: "Unavailable",
+};
+
+/**
+ * Base class of every error the module API rejects with. Switch on `code` (or use
+ * `isWorkoutsError(e, code)`) to tell them apart.
+ */
+export class WorkoutsError<
+  TCode extends WorkoutsErrorCode = WorkoutsErrorCode,
+> extends Error {
+  readonly code: TCode;
+  /**
+   * Code reported by the native side (e.g. `"ERR_NOT_FOUND"`), when the error came from native.
+   */
+  readonly nativeCode?: string;
+
+  constructor(
+    code: TCode,
+    message: string,
+    options: { nativeCode?: string; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "WorkoutsError";
+    this.code = code;
+    this.nativeCode = options.nativeCode;
+  }
+}
+
+/**
+ * The config was rejected: a goal, target or alert is malformed, or WorkoutKit doesn't support
+ * the combination.
+ */
+export class WorkoutsConfigError extends WorkoutsError<WorkoutsConfigErrorCode> {
+  constructor(
+    code: WorkoutsConfigErrorCode,
+    message: string,
+    options?: { nativeCode?: string; cause?: unknown },
+  ) {
+    super(code, message, options);
+    this.name = "WorkoutsConfigError";
+  }
+}
+
+/**
+ * A scheduled workout ID is malformed or doesn't exist.
+ */
+export class WorkoutsNotFoundError extends WorkoutsError<WorkoutsNotFoundErrorCode> {
+  constructor(
+    code: WorkoutsNotFoundErrorCode,
+    message: string,
+    options?: { nativeCode?: string; cause?: unknown },
+  ) {
+    super(code, message, options);
+    this.name = "WorkoutsNotFoundError";
+  }
+}
+
+/**
+ * The plan handle was released, or there's no view controller to present a preview from.
+ */
+export class WorkoutsStateError extends WorkoutsError<WorkoutsStateErrorCode> {
+  constructor(
+    code: WorkoutsStateErrorCode,
+    message: string,
+    options?: { nativeCode?: string; cause?: unknown },
+  ) {
+    super(code, message, options);
+    this.name = "WorkoutsStateError";
+  }
+}
+
+/**
+ * WorkoutKit isn't available: iOS < 17, or a platform without WorkoutKit (Android, web).
+ */
+export class WorkoutsUnavailableError extends WorkoutsError<"Unavailable"> {
+  constructor(
+    message = "WorkoutKit is only available on iOS 17+",
+    options?: { nativeCode?: string; cause?: unknown },
+  ) {
+    super("Unavailable", message, options);
+    this.name = "WorkoutsUnavailableError";
+  }
+}
+
+function createWorkoutsError(
+  code: WorkoutsErrorCode,
+  message: string,
+  options: { nativeCode?: string; cause?: unknown },
+): WorkoutsError {
+  switch (code) {
+    case "InvalidGoal":
+    case "InvalidTarget":
+    case "InvalidAlert":
+    case "InvalidConfig":
+    case "ValidationError":
+      return new WorkoutsConfigError(code, message, options);
+    case "InvalidID":
+    case "NotFound":
+      return new WorkoutsNotFoundError(code, message, options);
+    case "InvalidState":
+    case "NoViewController":
+      return new WorkoutsStateError(code, message, options);
+    case "Unavailable":
+      return new WorkoutsUnavailableError(message, options);
+    case "Unknown":
+      return new WorkoutsError(code, message, options);
+  }
+}
+
+/**
+ * Converts anything caught from the native module into a `WorkoutsError`. Errors that already
+ * are one are returned as-is; unrecognised errors become `code: "Unknown"` with the original
+ * as `cause`.
+ */
+export function toWorkoutsError(error: unknown): WorkoutsError {
+  if (error instanceof WorkoutsError) return error;
+
+  const nativeCode =
+    typeof error === "object" &&
+    error !== null &&
+    typeof (error as { code?: unknown }).code === "string"
+      ? (error as { code: string }).code
+      : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  const code =
+    nativeCode !== undefined &&
+    Object.prototype.hasOwnProperty.call(NATIVE_CODES, nativeCode)
+      ? NATIVE_CODES[nativeCode]
+      : "Unknown";
+
+  return createWorkoutsError(code, message, { nativeCode, cause: error });
+}
+
+/**
+ * Type guard for `WorkoutsError`, optionally narrowed to specific codes.
+ *
+ * @example
+ * ```ts
+ * if (isWorkoutsError(e, "NotFound")) {
+ *   // already removed
+ * }
+ * ```
+ */
+export function isWorkoutsError<TCode extends WorkoutsErrorCode>(
+  error: unknown,
+  ...codes: TCode[]
+): error is WorkoutsError<TCode> {
+  return (
+    error instanceof WorkoutsError &&
+    (codes.length === 0 || codes.includes(error.code as TCode))
+  );
+}
@@ -0,0 +1,184 @@
+import type {
+  WorkoutPlanExport,
+  WorkoutPlanKind,
+} from "./ReactNativeWorkouts.types";
+import { canonicalJson } from "./canonicalJson";
+import { WorkoutsConfigError } from "./errors";
+import { canonicalizeUnits } from "./units";
+
+/**
+ * Schema version stamped on every `plan.export()` payload. Payloads without a `schemaVersion`
+ * predate versioning and are treated as version 0.
+ */
+export const WORKOUT_EXPORT_SCHEMA_VERSION = 1;
+
+export interface WorkoutExportOptions {
+  /**
+   * Accept payloads without a `schemaVersion` (exported before versioning). They carry no
+   * checksum, so nothing detects if they were modified: only enable this for payloads you
+   * stored yourself. Defaults to `false`.
+   */
+  allowUnversioned?: boolean;
+}
+
+type ExportRecord = Record<string, unknown>;
+
+type WorkoutExportMigration = (exported: ExportRecord) => ExportRecord;
+
+/**
+ * Upgrades a payload from version `n` to `n + 1`, keyed by `n`.
+ */
+const WORKOUT_EXPORT_MIGRATIONS: Readonly<
+  Record<number, WorkoutExportMigration>
+> = {
+  // 0 → 1: unit aliases (`"km"`, `"min/mi"`, ...) are stored as their long names.
+  0: (exported) => ({
+    ...exported,
+    config: canonicalizeUnits(exported.config),
+  }),
+};
+
+function invalidExport(message: string): WorkoutsConfigError {
+  return new WorkoutsConfigError(
+    "InvalidConfig",
+    `Invalid workout plan export: ${message}`,
+  );
+}
+
+// cyrb53: a fast 53-bit string hash, returned as 14 hex digits.
+function hash53(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0))
+    .toString(16)
+    .padStart(14, "0");
+}
+
+/**
+ * Content hash of an export: every field except `checksum`, with object keys sorted.
+ *
+ * This detects accidental edits and truncation, not deliberate forgery — it is not a signature.
+ */
+export function computeWorkoutExportChecksum(
+  exported: Omit<WorkoutPlanExport, "checksum">,
+): string {
+  const { checksum: _checksum, ...content } = exported as WorkoutPlanExport;
+  return hash53(canonicalJson(content));
+}
+
+/**
+ * Returns a copy of `exported` stamped with the current `schemaVersion` and its `checksum`.
+ */
+export function stampWorkoutExport(exported: {
+  id: string;
+  kind: WorkoutPlanKind;
+  config: unknown;
+}): WorkoutPlanExport {
+  const content = {
+    id: exported.id,
+    kind: exported.kind,
+    schemaVersion: WORKOUT_EXPORT_SCHEMA_VERSION,
+    config: exported.config,
+  };
+  return { ...content, checksum: computeWorkoutExportChecksum(content) };
+}
+
+function readSchemaVersion(exported: ExportRecord): number {
+  const { schemaVersion } = exported;
+  if (schemaVersion === undefined) return 0;
+  if (
+    typeof schemaVersion !== "number" ||
+    !Number.isInteger(schemaVersion) ||
+    schemaVersion < 1
+  ) {
+    throw invalidExport(
+      `schemaVersion must be a positive integer, got ${JSON.stringify(
+        schemaVersion,
+      )}`,
+    );
+  }
+  if (schemaVersion > WORKOUT_EXPORT_SCHEMA_VERSION) {
+    throw invalidExport(
+      `schemaVersion ${schemaVersion} is newer than the supported version ${WORKOUT_EXPORT_SCHEMA_VERSION}`,
+    );
+  }
+  return schemaVersion;
+}
+
+/**
+ * Checks the `schemaVersion` and `checksum` of an export without migrating it.
+ *
+ * Throws a `WorkoutsConfigError` (`code: "InvalidConfig"`) if the version is unknown or newer
+ * than this library, if the checksum is missing (versioned payloads always carry one) or
+ * doesn't match the content, or if `schemaVersion` is missing and `allowUnversioned` isn't set.
+ * Otherwise a stripped `schemaVersion` and `checksum` would skip the check.
+ */
+export function verifyWorkoutExport(
+  exported: unknown,
+  options: WorkoutExportOptions = {},
+): void {
+  if (
+    typeof exported !== "object" ||
+    exported === null ||
+    Array.isArray(exported)
+  ) {
+    throw invalidExport("export must be an object");
+  }
+  const record = exported as ExportRecord;
+  const version = readSchemaVersion(record);
+  if (version === 0) {
+    if (options.allowUnversioned) return;
+    throw invalidExport(
+      "schemaVersion is missing, so the payload can't be verified (pass { allowUnversioned: true } to accept payloads exported before versioning)",
+    );
+  }
+
+  if (typeof record.checksum !== "string") {
+    throw invalidExport(`checksum is required for schemaVersion ${version}`);
+  }
+  const expected = computeWorkoutExportChecksum(
+    record as unknown as WorkoutPlanExport,
+  );
+  if (record.checksum !== expected) {
+    throw invalidExport(
+      "checksum does not match the content (the payload was modified or truncated)",
+    );
+  }
+}
+
+/**
+ * Upgrades an export to the current schema version, re-stamping its checksum. Current payloads
+ * are returned unchanged.
+ *
+ * Versioned payloads are verified first (see `verifyWorkoutExport`). Payloads without a
+ * `schemaVersion` are migrated from version 0 as-is: call `verifyWorkoutExport` first to reject
+ * them, as `createWorkoutPlanFromExport` does unless `allowUnversioned` is set. The config itself
+ * isn't validated here; `createWorkoutPlanFromExport` does that after migrating.
+ */
+export function migrateWorkoutExport(exported: unknown): WorkoutPlanExport {
+  verifyWorkoutExport(exported, { allowUnversioned: true });
+  let record = exported as ExportRecord;
+  let version = readSchemaVersion(record);
+  if (version === WORKOUT_EXPORT_SCHEMA_VERSION) {
+    return record as unknown as WorkoutPlanExport;
+  }
+
+  while (version < WORKOUT_EXPORT_SCHEMA_VERSION) {
+    const migrate = WORKOUT_EXPORT_MIGRATIONS[version];
+    if (!migrate) {
+      throw invalidExport(`no migration from schemaVersion ${version}`);
+    }
+    record = migrate(record);
+    version += 1;
+  }
+  return stampWorkoutExport(record as unknown as WorkoutPlanExport);
+}
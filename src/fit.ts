@@ -0,0 +1,858 @@
+import type {
+  ActivityType,
+  CustomWorkoutConfig,
+  IntervalBlock,
+  IntervalStep,
+  WorkoutAlert,
+  WorkoutFileWarning,
+  WorkoutGoal,
+  WorkoutStep,
+} from "./ReactNativeWorkouts.types";
+import { COGGAN_POWER_ZONES, powerAlertPercentFtp } from "./powerZones";
+import {
+  toKilocalories,
+  toMeters,
+  toMetersPerSecond,
+  toSeconds,
+  toSecondsPerMeter,
+} from "./units";
+
+export interface FitImportOptions {
+  /**
+   * Overrides the activity type derived from the FIT `sport` field.
+   */
+  activityType?: ActivityType;
+  /**
+   * Needed to resolve heart rate targets given as % of max HR.
+   */
+  maxHeartRate?: number;
+  /**
+   * Resolves power targets given as % of FTP to watts. Without it they are imported as
+   * `minPercentFtp`/`maxPercentFtp` alerts.
+   */
+  ftp?: number;
+}
+
+export interface FitImportResult {
+  config: CustomWorkoutConfig;
+  warnings: WorkoutFileWarning[];
+}
+
+export interface FitExportOptions {
+  /**
+   * Creation time written to the `file_id` message. Defaults to now.
+   */
+  timeCreated?: Date;
+}
+
+export interface FitExportResult {
+  data: Uint8Array;
+  warnings: WorkoutFileWarning[];
+}
+
+// MARK: Binary protocol
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001,
+  0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+function crc16(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+const BaseType = {
+  enum: 0x00,
+  uint8: 0x02,
+  uint16: 0x84,
+  uint32: 0x86,
+  string: 0x07,
+  uint32z: 0x8c,
+} as const;
+
+// Invalid ("not set") sentinels per base type number (`baseType & 0x1f`).
+const INVALID: Record<number, number> = {
+  0: 0xff,
+  1: 0x7f,
+  2: 0xff,
+  3: 0x7fff,
+  4: 0xffff,
+  5: 0x7fffffff,
+  6: 0xffffffff,
+  10: 0,
+  11: 0,
+  12: 0,
+};
+
+const MesgNum = {
+  fileId: 0,
+  workout: 26,
+  workoutStep: 27,
+} as const;
+
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31, 0, 0, 0);
+const PROFILE_VERSION = 2132;
+const FILE_TYPE_WORKOUT = 5;
+const MANUFACTURER_DEVELOPMENT = 255;
+
+interface FieldDefinition {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+type FitValue = number | string | undefined;
+
+interface FitMessage {
+  globalNum: number;
+  fields: Record<number, FitValue>;
+}
+
+function readValue(
+  view: DataView,
+  offset: number,
+  field: FieldDefinition,
+  littleEndian: boolean,
+): FitValue {
+  const type = field.baseType & 0x1f;
+  if (type === 7) {
+    const bytes = new Uint8Array(
+      view.buffer,
+      view.byteOffset + offset,
+      field.size,
+    );
+    const end = bytes.indexOf(0);
+    return decodeUtf8(end === -1 ? bytes : bytes.subarray(0, end));
+  }
+
+  let value: number;
+  switch (type) {
+    case 0:
+    case 2:
+    case 10:
+    case 13:
+      value = view.getUint8(offset);
+      break;
+    case 1:
+      value = view.getInt8(offset);
+      break;
+    case 3:
+      value = view.getInt16(offset, littleEndian);
+      break;
+    case 4:
+    case 11:
+      value = view.getUint16(offset, littleEndian);
+      break;
+    case 5:
+      value = view.getInt32(offset, littleEndian);
+      break;
+    case 6:
+    case 12:
+      value = view.getUint32(offset, littleEndian);
+      break;
+    case 8:
+      value = view.getFloat32(offset, littleEndian);
+      break;
+    case 9:
+      value = view.getFloat64(offset, littleEndian);
+      break;
+    default:
+      // 64-bit integers and unknown types are not needed for workout files.
+      return undefined;
+  }
+  return INVALID[type] === value ? undefined : value;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  const codePoints: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    let codePoint = length === 1 ? byte : byte & (0xff >> (length + 1));
+    for (let j = 1; j < length; j++) {
+      codePoint = (codePoint << 6) | (bytes[i + j] & 0x3f);
+    }
+    codePoints.push(codePoint);
+    i += length;
+  }
+  return String.fromCodePoint(...codePoints);
+}
+
+function encodeUtf8(value: string): number[] {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f),
+      );
+    }
+  }
+  return bytes;
+}
+
+function readMessages(data: Uint8Array): FitMessage[] {
+  if (data.length < 12) {
+    throw new Error("Not a FIT file: too short");
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const headerSize = data[0];
+  const signature = String.fromCharCode(...data.subarray(8, 12));
+  if ((headerSize !== 12 && headerSize !== 14) || signature !== ".FIT") {
+    throw new Error("Not a FIT file: missing .FIT header");
+  }
+  const dataSize = view.getUint32(4, true);
+  const end = headerSize + dataSize;
+  if (data.length < end + 2) {
+    throw new Error("Truncated FIT file");
+  }
+  if (crc16(data, 0, end) !== view.getUint16(end, true)) {
+    throw new Error("FIT file CRC mismatch");
+  }
+
+  const definitions: (MessageDefinition | undefined)[] = [];
+  const messages: FitMessage[] = [];
+  let pos = headerSize;
+
+  while (pos < end) {
+    const header = data[pos++];
+
+    if (header & 0x80) {
+      // Compressed timestamp header: data message for local type in bits 5-6.
+      pos = readData(definitions[(header >> 5) & 0x03], pos);
+      continue;
+    }
+
+    const localType = header & 0x0f;
+    if (header & 0x40) {
+      const littleEndian = data[pos + 1] === 0;
+      const globalNum = view.getUint16(pos + 2, littleEndian);
+      const fieldCount = data[pos + 4];
+      pos += 5;
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++, pos += 3) {
+        fields.push({
+          num: data[pos],
+          size: data[pos + 1],
+          baseType: data[pos + 2],
+        });
+      }
+      let developerDataSize = 0;
+      if (header & 0x20) {
+        const developerCount = data[pos++];
+        for (let i = 0; i < developerCount; i++, pos += 3) {
+          developerDataSize += data[pos + 1];
+        }
+      }
+      definitions[localType] = {
+        globalNum,
+        littleEndian,
+        fields,
+        developerDataSize,
+      };
+    } else {
+      pos = readData(definitions[localType], pos);
+    }
+  }
+
+  function readData(definition: MessageDefinition | undefined, at: number) {
+    if (!definition) {
+      throw new Error(`FIT data message at offset ${at} has no definition`);
+    }
+    const fields: Record<number, FitValue> = {};
+    for (const field of definition.fields) {
+      fields[field.num] = readValue(view, at, field, definition.littleEndian);
+      at += field.size;
+    }
+    messages.push({ globalNum: definition.globalNum, fields });
+    return at + definition.developerDataSize;
+  }
+
+  return messages;
+}
+
+class FitWriter {
+  private readonly bytes: number[] = [];
+
+  define(localType: number, globalNum: number, fields: FieldDefinition[]) {
+    this.bytes.push(0x40 | localType, 0, 0);
+    this.pushUint(globalNum, 2);
+    this.bytes.push(fields.length);
+    for (const field of fields) {
+      this.bytes.push(field.num, field.size, field.baseType);
+    }
+  }
+
+  write(localType: number, fields: FieldDefinition[], values: FitValue[]) {
+    this.bytes.push(localType);
+    fields.forEach((field, index) => {
+      const value = values[index];
+      if (field.baseType === BaseType.string) {
+        const encoded = encodeUtf8(typeof value === "string" ? value : "");
+        for (let i = 0; i < field.size; i++) {
+          this.bytes.push(i < encoded.length ? encoded[i] : 0);
+        }
+        return;
+      }
+      const invalid = INVALID[field.baseType & 0x1f];
+      this.pushUint(typeof value === "number" ? value : invalid, field.size);
+    });
+  }
+
+  private pushUint(value: number, size: number) {
+    for (let i = 0; i < size; i++) {
+      this.bytes.push(Math.floor(value / 2 ** (8 * i)) & 0xff);
+    }
+  }
+
+  finish(): Uint8Array {
+    const headerSize = 14;
+    const out = new Uint8Array(headerSize + this.bytes.length + 2);
+    const view = new DataView(out.buffer);
+    out[0] = headerSize;
+    out[1] = 0x20; // protocol 2.0
+    view.setUint16(2, PROFILE_VERSION, true);
+    view.setUint32(4, this.bytes.length, true);
+    out.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, crc16(out, 0, 12), true);
+    out.set(this.bytes, headerSize);
+    const end = headerSize + this.bytes.length;
+    view.setUint16(end, crc16(out, 0, end), true);
+    return out;
+  }
+}
+
+// MARK: Workout profile
+
+const DurationType = {
+  time: 0,
+  distance: 1,
+  calories: 4,
+  open: 5,
+  repeatUntilStepsComplete: 6,
+} as const;
+
+const TargetType = {
+  speed: 0,
+  heartRate: 1,
+  open: 2,
+  cadence: 3,
+  power: 4,
+} as const;
+
+const Intensity = {
+  active: 0,
+  rest: 1,
+  warmup: 2,
+  cooldown: 3,
+  recovery: 4,
+  interval: 5,
+} as const;
+
+const StepField = {
+  durationType: 1,
+  durationValue: 2,
+  targetType: 3,
+  targetValue: 4,
+  customTargetLow: 5,
+  customTargetHigh: 6,
+  intensity: 7,
+  messageIndex: 254,
+} as const;
+
+// FIT `sport` / `sub_sport` pairs for the activity types that have an equivalent.
+const SPORTS: {
+  activityType: ActivityType;
+  sport: number;
+  subSport: number;
+}[] = [
+  { activityType: "running", sport: 1, subSport: 0 },
+  { activityType: "cycling", sport: 2, subSport: 0 },
+  { activityType: "swimming", sport: 5, subSport: 0 },
+  { activityType: "walking", sport: 11, subSport: 0 },
+  { activityType: "rowing", sport: 15, subSport: 0 },
+  { activityType: "hiking", sport: 17, subSport: 0 },
+  { activityType: "elliptical", sport: 4, subSport: 15 },
+  { activityType: "stairClimbing", sport: 4, subSport: 16 },
+  { activityType: "traditionalStrengthTraining", sport: 10, subSport: 20 },
+  { activityType: "yoga", sport: 10, subSport: 43 },
+  { activityType: "pilates", sport: 10, subSport: 44 },
+  { activityType: "highIntensityIntervalTraining", sport: 62, subSport: 0 },
+];
+
+// Custom heart rate targets are offset by 100 (0–100 means % of max HR),
+// custom power targets by 1000 (0–1000 means % of FTP).
+const HEART_RATE_OFFSET = 100;
+const POWER_OFFSET = 1000;
+
+interface FitStep {
+  messageIndex: number;
+  durationType?: number;
+  durationValue?: number;
+  targetType?: number;
+  targetValue?: number;
+  low?: number;
+  high?: number;
+  intensity?: number;
+}
+
+function toFitStep(message: FitMessage, fallbackIndex: number): FitStep {
+  const num = (key: number) => {
+    const value = message.fields[key];
+    return typeof value === "number" ? value : undefined;
+  };
+  return {
+    messageIndex: num(StepField.messageIndex) ?? fallbackIndex,
+    durationType: num(StepField.durationType),
+    durationValue: num(StepField.durationValue),
+    targetType: num(StepField.targetType),
+    targetValue: num(StepField.targetValue),
+    low: num(StepField.customTargetLow),
+    high: num(StepField.customTargetHigh),
+    intensity: num(StepField.intensity),
+  };
+}
+
+/**
+ * Converts a FIT workout file (`workout` + `workout_step` messages) into a `CustomWorkoutConfig`.
+ *
+ * Time, distance, calories and open durations become goals; repeat steps become
+ * `IntervalBlock.iterations`; heart rate, power, speed and cadence targets become alerts.
+ * Throws on files that aren't valid FIT (bad header or CRC). Durations and targets that
+ * WorkoutKit can't express (e.g. "until HR below", nested repeats) are reported in `warnings`.
+ */
+export function importFit(
+  data: Uint8Array | ArrayBuffer,
+  options: FitImportOptions = {},
+): FitImportResult {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const messages = readMessages(bytes);
+  const warnings: WorkoutFileWarning[] = [];
+
+  const workoutMessage = messages.find((m) => m.globalNum === MesgNum.workout);
+  const steps = messages
+    .filter((m) => m.globalNum === MesgNum.workoutStep)
+    .map(toFitStep)
+    .sort((a, b) => a.messageIndex - b.messageIndex);
+
+  let activityType = options.activityType;
+  if (!activityType) {
+    const sport = workoutMessage?.fields[4];
+    const subSport = workoutMessage?.fields[11] ?? 0;
+    activityType =
+      SPORTS.find((s) => s.sport === sport && s.subSport === subSport)
+        ?.activityType ?? SPORTS.find((s) => s.sport === sport)?.activityType;
+    if (!activityType) {
+      warnings.push({
+        path: "workout.sport",
+        message: `FIT sport ${String(
+          sport,
+        )} has no WorkoutKit equivalent; imported as running`,
+      });
+      activityType = "running";
+    }
+  }
+
+  const goalOf = (step: FitStep, path: string): WorkoutGoal => {
+    const value = step.durationValue;
+    switch (step.durationType) {
+      case DurationType.time:
+        if (value !== undefined) {
+          return { type: "time", value: value / 1000, unit: "seconds" };
+        }
+        break;
+      case DurationType.distance:
+        if (value !== undefined) {
+          return { type: "distance", value: value / 100, unit: "meters" };
+        }
+        break;
+      case DurationType.calories:
+        if (value !== undefined) {
+          return { type: "energy", value, unit: "kilocalories" };
+        }
+        break;
+      case DurationType.open:
+      case undefined:
+        return { type: "open" };
+    }
+    warnings.push({
+      path,
+      message: `Duration type ${step.durationType} is not supported; imported as an open goal`,
+    });
+    return { type: "open" };
+  };
+
+  const alertOf = (step: FitStep, path: string): WorkoutAlert | undefined => {
+    const { targetType, targetValue: zone, low, high } = step;
+    const hasRange = low !== undefined && high !== undefined && high > 0;
+    const drop = (message: string) => {
+      warnings.push({ path, message });
+      return undefined;
+    };
+
+    switch (targetType) {
+      case undefined:
+      case TargetType.open:
+        return undefined;
+      case TargetType.heartRate:
+        if (zone) return { type: "heartRate", zone };
+        if (!hasRange) return drop("Heart rate target without a range");
+        if (low! > HEART_RATE_OFFSET && high! > HEART_RATE_OFFSET) {
+          return {
+            type: "heartRate",
+            min: low! - HEART_RATE_OFFSET,
+            max: high! - HEART_RATE_OFFSET,
+          };
+        }
+        if (!options.maxHeartRate) {
+          return drop("Heart rate target in % of max HR needs `maxHeartRate`");
+        }
+        return {
+          type: "heartRate",
+          min: Math.round((low! / 100) * options.maxHeartRate),
+          max: Math.round((high! / 100) * options.maxHeartRate),
+        };
+      case TargetType.power:
+        if (zone) {
+          const preset = COGGAN_POWER_ZONES.find(
+            (candidate) => candidate.zone === zone,
+          );
+          if (!preset) {
+            return drop(`Power zone ${zone} target is not supported`);
+          }
+          return { type: "power", zone: preset.name };
+        }
+        if (!hasRange) return drop("Power target without a range");
+        if (low! > POWER_OFFSET && high! > POWER_OFFSET) {
+          return {
+            type: "power",
+            min: low! - POWER_OFFSET,
+            max: high! - POWER_OFFSET,
+          };
+        }
+        if (!options.ftp) {
+          return { type: "power", minPercentFtp: low!, maxPercentFtp: high! };
+        }
+        return {
+          type: "power",
+          min: Math.round((low! / 100) * options.ftp),
+          max: Math.round((high! / 100) * options.ftp),
+        };
+      case TargetType.speed:
+        if (zone) return drop(`Speed zone ${zone} target is not supported`);
+        if (!hasRange) return drop("Speed target without a range");
+        return {
+          type: "speed",
+          min: low! / 1000,
+          max: high! / 1000,
+          unit: "metersPerSecond",
+        };
+      case TargetType.cadence:
+        if (!hasRange) return drop("Cadence target without a range");
+        return { type: "cadence", min: low!, max: high! };
+      default:
+        return drop(`Target type ${targetType} is not supported`);
+    }
+  };
+
+  const toStep = (step: FitStep, path: string): WorkoutStep => {
+    const alert = alertOf(step, path);
+    return { goal: goalOf(step, path), ...(alert && { alert }) };
+  };
+
+  const blocks: IntervalBlock[] = [];
+  let pending: { index: number; step: IntervalStep }[] = [];
+  let warmup: WorkoutStep | undefined;
+  let cooldown: WorkoutStep | undefined;
+
+  const flush = (steps = pending, iterations?: number) => {
+    if (steps.length === 0) return;
+    const intervalSteps = steps.map((entry) => entry.step);
+    blocks.push(
+      iterations === undefined
+        ? { steps: intervalSteps }
+        : { iterations, steps: intervalSteps },
+    );
+  };
+
+  steps.forEach((step, position) => {
+    const path = `workout_step[${step.messageIndex}]`;
+
+    if (step.durationType === DurationType.repeatUntilStepsComplete) {
+      const from = step.durationValue ?? 0;
+      const repeated = pending.filter((entry) => entry.index >= from);
+      if (repeated.length === 0) {
+        warnings.push({
+          path,
+          message:
+            "Nested or empty repeat is not supported in WorkoutKit; repeat ignored",
+        });
+        return;
+      }
+      flush(pending.filter((entry) => entry.index < from));
+      flush(repeated, Math.max(1, step.targetValue ?? 1));
+      pending = [];
+      return;
+    }
+
+    const isFirst = position === 0;
+    const isLast = position === steps.length - 1;
+    if (step.intensity === Intensity.warmup && isFirst) {
+      warmup = toStep(step, path);
+      return;
+    }
+    if (step.intensity === Intensity.cooldown && isLast) {
+      cooldown = toStep(step, path);
+      return;
+    }
+
+    const purpose =
+      step.intensity === Intensity.rest || step.intensity === Intensity.recovery
+        ? "recovery"
+        : "work";
+    pending.push({
+      index: step.messageIndex,
+      step: { purpose, ...toStep(step, path) },
+    });
+  });
+  flush();
+
+  const name = workoutMessage?.fields[8];
+  return {
+    config: {
+      activityType,
+      ...(typeof name === "string" && name !== "" && { displayName: name }),
+      ...(warmup && { warmup }),
+      blocks,
+      ...(cooldown && { cooldown }),
+    },
+    warnings,
+  };
+}
+
+const STEP_FIELDS: FieldDefinition[] = [
+  { num: StepField.messageIndex, size: 2, baseType: BaseType.uint16 },
+  { num: StepField.durationType, size: 1, baseType: BaseType.enum },
+  { num: StepField.durationValue, size: 4, baseType: BaseType.uint32 },
+  { num: StepField.targetType, size: 1, baseType: BaseType.enum },
+  { num: StepField.targetValue, size: 4, baseType: BaseType.uint32 },
+  { num: StepField.customTargetLow, size: 4, baseType: BaseType.uint32 },
+  { num: StepField.customTargetHigh, size: 4, baseType: BaseType.uint32 },
+  { num: StepField.intensity, size: 1, baseType: BaseType.enum },
+];
+
+/**
+ * Converts a `CustomWorkoutConfig` into a FIT workout file.
+ *
+ * Blocks with more than one iteration are followed by a "repeat until steps complete" step.
+ * Pace alerts are written as speed targets. Anything FIT can't express is listed in `warnings`.
+ */
+export function exportFit(
+  config: CustomWorkoutConfig,
+  options: FitExportOptions = {},
+): FitExportResult {
+  const warnings: WorkoutFileWarning[] = [];
+  const rows: Omit<FitStep, "messageIndex">[] = [];
+
+  const durationOf = (goal: WorkoutGoal | undefined) => {
+    switch (goal?.type) {
+      case "time":
+        return {
+          durationType: DurationType.time,
+          durationValue: Math.round(toSeconds(goal.value, goal.unit) * 1000),
+        };
+      case "distance":
+        return {
+          durationType: DurationType.distance,
+          durationValue: Math.round(toMeters(goal.value, goal.unit) * 100),
+        };
+      case "energy":
+        return {
+          durationType: DurationType.calories,
+          durationValue: Math.round(toKilocalories(goal.value, goal.unit)),
+        };
+      default:
+        return { durationType: DurationType.open };
+    }
+  };
+
+  const targetOf = (alert: WorkoutAlert | undefined, path: string) => {
+    if (!alert) return { targetType: TargetType.open };
+    if (alert.type === "heartRate" && "zone" in alert) {
+      return { targetType: TargetType.heartRate, targetValue: alert.zone };
+    }
+    const custom = (targetType: number, low: number, high: number) => ({
+      targetType,
+      targetValue: 0,
+      low: Math.round(low),
+      high: Math.round(high),
+    });
+    switch (alert.type) {
+      case "heartRate":
+        return custom(
+          TargetType.heartRate,
+          alert.min + HEART_RATE_OFFSET,
+          alert.max + HEART_RATE_OFFSET,
+        );
+      case "power": {
+        if ("min" in alert) {
+          return custom(
+            TargetType.power,
+            alert.min + POWER_OFFSET,
+            alert.max + POWER_OFFSET,
+          );
+        }
+        // Relative targets stay relative: values below the offset are % of FTP.
+        const { min, max } = powerAlertPercentFtp(alert);
+        return custom(TargetType.power, min, max);
+      }
+      case "cadence":
+        return custom(TargetType.cadence, alert.min, alert.max);
+      case "speed":
+        return custom(
+          TargetType.speed,
+          toMetersPerSecond(alert.min, alert.unit) * 1000,
+          toMetersPerSecond(alert.max, alert.unit) * 1000,
+        );
+      case "pace": {
+        if ("zone" in alert) {
+          warnings.push({
+            path: `${path}.alert`,
+            message: `Pace zone "${alert.zone}" must be resolved with resolvePaceAlerts(); target dropped`,
+          });
+          return { targetType: TargetType.open };
+        }
+        // The slower pace (larger number) is the lower speed bound.
+        const low = 1 / toSecondsPerMeter(alert.max, alert.unit);
+        const high = 1 / toSecondsPerMeter(alert.min, alert.unit);
+        warnings.push({
+          path: `${path}.alert`,
+          message: "Pace alert written as a speed target",
+        });
+        return custom(TargetType.speed, low * 1000, high * 1000);
+      }
+    }
+  };
+
+  const pushStep = (step: WorkoutStep, intensity: number, path: string) => {
+    rows.push({
+      ...durationOf(step.goal),
+      ...targetOf(step.alert, path),
+      intensity,
+    });
+  };
+
+  if (config.warmup) {
+    pushStep(config.warmup, Intensity.warmup, "warmup");
+  }
+  config.blocks.forEach((block, blockIndex) => {
+    const firstIndex = rows.length;
+    block.steps.forEach((step, stepIndex) => {
+      pushStep(
+        step,
+        step.purpose === "recovery" ? Intensity.recovery : Intensity.active,
+        `blocks[${blockIndex}].steps[${stepIndex}]`,
+      );
+    });
+    if ((block.iterations ?? 1) > 1) {
+      rows.push({
+        durationType: DurationType.repeatUntilStepsComplete,
+        durationValue: firstIndex,
+        targetValue: block.iterations,
+      });
+    }
+  });
+  if (config.cooldown) {
+    pushStep(config.cooldown, Intensity.cooldown, "cooldown");
+  }
+
+  const sport = SPORTS.find((s) => s.activityType === config.activityType);
+  if (!sport) {
+    warnings.push({
+      path: "activityType",
+      message: `"${config.activityType}" has no FIT sport; written as generic`,
+    });
+  }
+
+  const writer = new FitWriter();
+  const timeCreated = options.timeCreated ?? new Date();
+
+  const fileIdFields: FieldDefinition[] = [
+    { num: 0, size: 1, baseType: BaseType.enum },
+    { num: 1, size: 2, baseType: BaseType.uint16 },
+    { num: 2, size: 2, baseType: BaseType.uint16 },
+    { num: 4, size: 4, baseType: BaseType.uint32 },
+  ];
+  writer.define(0, MesgNum.fileId, fileIdFields);
+  writer.write(0, fileIdFields, [
+    FILE_TYPE_WORKOUT,
+    MANUFACTURER_DEVELOPMENT,
+    0,
+    Math.max(0, Math.round((timeCreated.getTime() - FIT_EPOCH_MS) / 1000)),
+  ]);
+
+  const name = config.displayName ?? "";
+  const workoutFields: FieldDefinition[] = [
+    { num: 4, size: 1, baseType: BaseType.enum },
+    { num: 11, size: 1, baseType: BaseType.enum },
+    { num: 6, size: 2, baseType: BaseType.uint16 },
+    {
+      num: 8,
+      size: Math.min(encodeUtf8(name).length + 1, 255),
+      baseType: BaseType.string,
+    },
+  ];
+  writer.define(1, MesgNum.workout, workoutFields);
+  writer.write(1, workoutFields, [
+    sport?.sport ?? 0,
+    sport?.subSport ?? 0,
+    rows.length,
+    name,
+  ]);
+
+  writer.define(2, MesgNum.workoutStep, STEP_FIELDS);
+  rows.forEach((row, index) => {
+    writer.write(2, STEP_FIELDS, [
+      index,
+      row.durationType,
+      row.durationValue,
+      row.targetType,
+      row.targetValue,
+      row.low,
+      row.high,
+      row.intensity,
+    ]);
+  });
+
+  return { data: writer.finish(), warnings };
+}
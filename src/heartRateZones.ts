@@ -0,0 +1,180 @@
+import type {
+  CustomWorkoutConfig,
+  WorkoutAlert,
+} from "./ReactNativeWorkouts.types";
+
+/**
+ * Zone boundaries as ascending percentages: `n + 1` numbers describe `n` zones. Zone 1 spans
+ * the first two numbers, zone 2 the second and third, and so on.
+ */
+export type HeartRateZoneScheme = number[];
+
+export type HeartRateZoneInput =
+  | {
+      /**
+       * Percentages of max heart rate.
+       */
+      method: "maxHeartRate";
+      maxHeartRate: number;
+      scheme?: HeartRateZoneScheme;
+    }
+  | {
+      /**
+       * Karvonen: percentages of heart rate reserve (`max - resting`) on top of resting.
+       */
+      method: "heartRateReserve";
+      maxHeartRate: number;
+      restingHeartRate: number;
+      scheme?: HeartRateZoneScheme;
+    }
+  | {
+      /**
+       * Percentages of lactate threshold heart rate (LTHR).
+       */
+      method: "lactateThreshold";
+      thresholdHeartRate: number;
+      scheme?: HeartRateZoneScheme;
+    };
+
+export type HeartRateZoneMethod = HeartRateZoneInput["method"];
+
+export interface HeartRateZone {
+  /**
+   * 1-based zone number, as used by `HeartRateZoneAlert.zone`.
+   */
+  zone: number;
+  min: number;
+  max: number;
+}
+
+export interface HeartRateZones {
+  method: HeartRateZoneMethod;
+  zones: HeartRateZone[];
+}
+
+/**
+ * Default 5-zone schemes per method.
+ */
+export const DEFAULT_HEART_RATE_ZONE_SCHEMES: Record<
+  HeartRateZoneMethod,
+  HeartRateZoneScheme
+> = {
+  maxHeartRate: [50, 60, 70, 80, 90, 100],
+  heartRateReserve: [50, 60, 70, 80, 90, 100],
+  // Friel-style zones around LTHR.
+  lactateThreshold: [65, 85, 90, 95, 100, 106],
+};
+
+function assertBpm(name: string, value: number): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number of bpm, got ${value}`);
+  }
+}
+
+function assertScheme(scheme: HeartRateZoneScheme): void {
+  if (
+    scheme.length < 2 ||
+    scheme.some(
+      (value, index) =>
+        !Number.isFinite(value) || (index > 0 && value <= scheme[index - 1]),
+    )
+  ) {
+    throw new Error(
+      `Heart rate zone scheme must be at least two ascending percentages, got [${scheme.join(
+        ", ",
+      )}]`,
+    );
+  }
+}
+
+/**
+ * Computes bpm ranges for each zone. Adjacent zones don't overlap: a zone ends 1 bpm below
+ * where the next one starts.
+ */
+export function computeHeartRateZones(
+  input: HeartRateZoneInput,
+): HeartRateZones {
+  const scheme = input.scheme ?? DEFAULT_HEART_RATE_ZONE_SCHEMES[input.method];
+  assertScheme(scheme);
+
+  let toBpm: (percent: number) => number;
+  switch (input.method) {
+    case "maxHeartRate":
+      assertBpm("maxHeartRate", input.maxHeartRate);
+      toBpm = (percent) => (percent / 100) * input.maxHeartRate;
+      break;
+    case "heartRateReserve": {
+      assertBpm("maxHeartRate", input.maxHeartRate);
+      assertBpm("restingHeartRate", input.restingHeartRate);
+      const reserve = input.maxHeartRate - input.restingHeartRate;
+      if (reserve <= 0) {
+        throw new Error("restingHeartRate must be lower than maxHeartRate");
+      }
+      toBpm = (percent) => input.restingHeartRate + (percent / 100) * reserve;
+      break;
+    }
+    case "lactateThreshold":
+      assertBpm("thresholdHeartRate", input.thresholdHeartRate);
+      toBpm = (percent) => (percent / 100) * input.thresholdHeartRate;
+      break;
+  }
+
+  const bounds = scheme.map((percent) => Math.round(toBpm(percent)));
+  const zones = bounds.slice(0, -1).map((min, index) => {
+    const isLast = index === bounds.length - 2;
+    return {
+      zone: index + 1,
+      min,
+      max: isLast ? bounds[index + 1] : Math.max(min, bounds[index + 1] - 1),
+    };
+  });
+
+  return { method: input.method, zones };
+}
+
+function resolveAlert(
+  alert: WorkoutAlert | undefined,
+  zones: HeartRateZones,
+): WorkoutAlert | undefined {
+  if (!alert || alert.type !== "heartRate" || !("zone" in alert)) {
+    return alert;
+  }
+  const zone = zones.zones.find((candidate) => candidate.zone === alert.zone);
+  if (!zone) {
+    throw new Error(
+      `Heart rate zone ${alert.zone} is not defined (zones 1-${zones.zones.length} available)`,
+    );
+  }
+  return {
+    type: "heartRate",
+    min: zone.min,
+    max: zone.max,
+  };
+}
+
+/**
+ * Returns a copy of `config` where every `HeartRateZoneAlert` is replaced by a
+ * `HeartRateRangeAlert` with the bpm range of that zone, so the Watch enforces the coach's
+ * zones instead of its own defaults.
+ *
+ * Throws when an alert references a zone that `zones` doesn't define.
+ */
+export function resolveHeartRateAlerts(
+  config: CustomWorkoutConfig,
+  zones: HeartRateZones,
+): CustomWorkoutConfig {
+  const resolveStep = <T extends { alert?: WorkoutAlert }>(step: T): T => {
+    const alert = resolveAlert(step.alert, zones);
+    return alert === step.alert ? step : { ...step, alert };
+  };
+
+  return {
+    ...config,
+    ...(config.warmup && { warmup: resolveStep(config.warmup) }),
+    blocks: config.blocks.map((block) => ({
+      ...block,
+      steps: block.steps.map(resolveStep),
+    })),
+    ...(config.cooldown && { cooldown: resolveStep(config.cooldown) }),
+  };
+}
@@ -1,6 +1,5 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 
-import ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
 import type {
     AuthorizationStatus,
     CustomWorkoutConfig,
@@ -10,11 +9,50 @@ import type {
     SingleGoalWorkoutConfig,
     SwimBikeRunWorkoutConfig,
     WorkoutPlan,
+    WorkoutPlanExport,
 } from "./ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
+import { useWorkoutsSnapshot, useWorkoutsStore } from "./WorkoutsProvider";
+import {
+    type ScheduleManyItem,
+    type ScheduleManyOptions,
+    type ScheduleManyResult,
+    scheduleMany,
+} from "./batchSchedule";
+import {
+    type WorkoutsError,
+    WorkoutsStateError,
+    toWorkoutsError,
+} from "./errors";
+import type { WorkoutExportOptions } from "./exportSchema";
+import { acquireWorkoutPlan, workoutPlanCacheKey } from "./planCache";
+import { createWorkoutPlanFromExport } from "./planExport";
+import {
+    type RecurrenceRule,
+    type RecurringScheduleResult,
+    type ScheduledWorkoutSeries,
+    groupScheduledWorkouts,
+    removeScheduledSeries,
+    scheduleRecurring,
+} from "./recurrence";
+import {
+    type ScheduleProgramOptions,
+    type ScheduleProgramResult,
+    type TrainingProgram,
+    type TrainingProgramProgress,
+    getTrainingProgramProgress,
+    scheduleProgram,
+    unscheduleProgram,
+} from "./trainingProgram";
+
+const NO_WORKOUTS: ScheduledWorkout[] = [];
 
 type UseWorkoutPlanResult = {
     /**
      * A stateful `WorkoutPlan` shared object, or `null` when config is null/invalid.
+     *
+     * Hooks with the same config may return the same plan, and the hook releases it when no
+     * longer needed: don't call `plan.release()` yourself.
      */
     plan: WorkoutPlan | null;
     /**
@@ -24,7 +62,7 @@ type UseWorkoutPlanResult = {
     /**
      * Any error that occurred while creating the plan.
      */
-    error: Error | null;
+    error: WorkoutsError | null;
 };
 
 function useWorkoutPlan<TConfig>(
@@ -33,21 +71,23 @@ function useWorkoutPlan<TConfig>(
 ): UseWorkoutPlanResult {
     const [plan, setPlan] = useState<WorkoutPlan | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<Error | null>(null);
-    const planRef = useRef<WorkoutPlan | null>(null);
+    const [error, setError] = useState<WorkoutsError | null>(null);
 
-    // We want to recreate the plan when the config meaningfully changes.
-    // Consumers should keep config stable (useMemo) for best results.
-    const configKey = useMemo(() => JSON.stringify(config ?? null), [config]);
+    // Plans come from a shared cache keyed by the normalized config, so key order, unit aliases
+    // or a rebuilt-but-equal config don't recreate the native plan, and two hooks with the same
+    // config share one.
+    const configKey = useMemo(
+        () => (config ? workoutPlanCacheKey(createPlan, config) : null),
+        [config, createPlan],
+    );
 
     useEffect(() => {
         let cancelled = false;
+        const lease = config ? acquireWorkoutPlan(createPlan, config) : null;
 
         const run = async () => {
-            if (!config) {
+            if (!lease) {
                 setPlan(null);
-                planRef.current?.release();
-                planRef.current = null;
                 setError(null);
                 setIsLoading(false);
                 return;
@@ -57,22 +97,14 @@ function useWorkoutPlan<TConfig>(
             setError(null);
 
             try {
-                const nextPlan = await createPlan(config);
-                if (cancelled) {
-                    // If the effect already cleaned up, ensure we don't leak the native object.
-                    nextPlan.release();
-                    return;
+                const nextPlan = await lease.plan;
+                if (!cancelled) {
+                    setPlan(nextPlan);
                 }
-
-                planRef.current?.release();
-                planRef.current = nextPlan;
-                setPlan(nextPlan);
             } catch (e) {
                 if (!cancelled) {
                     setPlan(null);
-                    planRef.current?.release();
-                    planRef.current = null;
-                    setError(e instanceof Error ? e : new Error(String(e)));
+                    setError(toWorkoutsError(e));
                 }
             } finally {
                 if (!cancelled) {
@@ -85,8 +117,7 @@ function useWorkoutPlan<TConfig>(
 
         return () => {
             cancelled = true;
-            planRef.current?.release();
-            planRef.current = null;
+            lease?.release();
         };
     }, [configKey, createPlan]);
 
@@ -123,13 +154,35 @@ export function useSwimBikeRunWorkout(
     );
 }
 
+// One factory per option set, so the plan cache key stays stable between renders.
+const createWorkoutPlanFromUnversionedExport = (exported: WorkoutPlanExport) =>
+    createWorkoutPlanFromExport(exported, { allowUnversioned: true });
+
+/**
+ * Recreates a plan from a persisted `plan.export()` payload. Malformed payloads (and ones
+ * without a `schemaVersion`, unless `options.allowUnversioned` is set) surface as a
+ * `WorkoutsConfigError` in `error`.
+ */
+export function useWorkoutPlanFromExport(
+    exported: WorkoutPlanExport | null,
+    options: WorkoutExportOptions = {},
+): UseWorkoutPlanResult {
+    return useWorkoutPlan(
+        exported,
+        options.allowUnversioned
+            ? createWorkoutPlanFromUnversionedExport
+            : createWorkoutPlanFromExport,
+    );
+}
+
 export type UseWorkoutAuthorizationResult = {
     /**
-     * Current authorization status (fetched on mount).
+     * Current authorization status (fetched on mount, then kept up to date through
+     * `onAuthorizationChange`).
      */
     status: AuthorizationStatus | null;
     isLoading: boolean;
-    error: Error | null;
+    error: WorkoutsError | null;
     /**
      * Re-reads the authorization status.
      */
@@ -141,48 +194,70 @@ export type UseWorkoutAuthorizationResult = {
 };
 
 /**
- * Hook to read/request WorkoutKit authorization.
+ * Hook to read/request WorkoutKit authorization. Inside a `WorkoutsProvider`, the status is
+ * shared with every other caller.
  */
 export function useWorkoutAuthorization(): UseWorkoutAuthorizationResult {
-    const [status, setStatus] = useState<AuthorizationStatus | null>(null);
+    const store = useWorkoutsStore();
+    const shared = useWorkoutsSnapshot(store);
+    const [localStatus, setStatus] = useState<AuthorizationStatus | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<Error | null>(null);
+    const [error, setError] = useState<WorkoutsError | null>(null);
 
     const refresh = useCallback(async () => {
         setIsLoading(true);
         setError(null);
         try {
-            const next = await ReactNativeWorkouts.getAuthorizationStatus();
+            const next = store
+                ? await store.loadAuthorizationStatus()
+                : await ReactNativeWorkouts.getAuthorizationStatus();
             setStatus(next);
             return next;
         } catch (e) {
-            const err = e instanceof Error ? e : new Error(String(e));
+            const err = toWorkoutsError(e);
             setError(err);
             throw err;
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [store]);
 
     const request = useCallback(async () => {
         setIsLoading(true);
         setError(null);
         try {
-            const next = await ReactNativeWorkouts.requestAuthorization();
+            const next = store
+                ? await store.requestAuthorization()
+                : await ReactNativeWorkouts.requestAuthorization();
             setStatus(next);
             return next;
         } catch (e) {
-            const err = e instanceof Error ? e : new Error(String(e));
+            const err = toWorkoutsError(e);
             setError(err);
             throw err;
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [store]);
 
     useEffect(() => {
+        if (store?.getSnapshot().authorizationStatus) return;
         void refresh();
-    }, [refresh]);
+    }, [refresh, store]);
+
+    // Native emits this after `requestAuthorization()` and when the app returns to the
+    // foreground with a different status (e.g. access granted in Settings). A provider listens
+    // on behalf of its hooks.
+    useEffect(() => {
+        if (store) return;
+        const subscription = ReactNativeWorkouts.addListener(
+            "onAuthorizationChange",
+            (event) => setStatus(event.status),
+        );
+        return () => subscription.remove();
+    }, [store]);
+
+    const status = store ? shared.authorizationStatus : localStatus;
 
     return { status, isLoading, error, refresh, request };
 }
@@ -190,7 +265,7 @@ export function useWorkoutAuthorization(): UseWorkoutAuthorizationResult {
 export type UseScheduledWorkoutsResult = {
     workouts: ScheduledWorkout[];
     isLoading: boolean;
-    error: Error | null;
+    error: WorkoutsError | null;
     /**
      * Reloads scheduled workouts from native.
      */
@@ -200,9 +275,18 @@ export type UseScheduledWorkoutsResult = {
      */
     removeAll: () => Promise<void>;
     /**
-     * Removes a single scheduled workout by ID.
+     * Scheduled workouts grouped by ID: each recurring schedule is one series.
      */
-    remove: (id: string) => Promise<void>;
+    series: ScheduledWorkoutSeries[];
+    /**
+     * Removes a single scheduled workout by ID. Pass `date` to remove one occurrence of a series
+     * instead of the first one found.
+     */
+    remove: (id: string, date?: DateComponents) => Promise<void>;
+    /**
+     * Removes every occurrence of a series, then reloads the list.
+     */
+    removeSeries: (seriesId: string) => Promise<void>;
     /**
      * Schedules (syncs) a plan for the given date components, then reloads the list.
      *
@@ -212,84 +296,319 @@ export type UseScheduledWorkoutsResult = {
         plan: WorkoutPlan,
         date: DateComponents,
     ) => Promise<{ id: string }>;
+    /**
+     * Schedules several plans (see `scheduleMany`) and reloads the list once at the end.
+     * `isLoading` stays `true` for the whole batch. Per-item failures are reported in the result,
+     * not in `error`.
+     */
+    scheduleMany: (
+        items: ScheduleManyItem[],
+        options?: ScheduleManyOptions,
+    ) => Promise<ScheduleManyResult>;
+    /**
+     * Schedules a plan on every date of an RRULE (see `scheduleRecurring`), then reloads the list.
+     */
+    scheduleRecurring: (
+        plan: WorkoutPlan,
+        rule: RecurrenceRule | string,
+    ) => Promise<RecurringScheduleResult>;
 };
 
 /**
- * Hook to manage scheduled workouts.
+ * Hook to manage scheduled workouts. Inside a `WorkoutsProvider`, the list is shared with every
+ * other caller and `remove`, `removeAll` and `schedule` update it optimistically.
  */
 export function useScheduledWorkouts(): UseScheduledWorkoutsResult {
-    const [workouts, setWorkouts] = useState<ScheduledWorkout[]>([]);
+    const store = useWorkoutsStore();
+    const shared = useWorkoutsSnapshot(store);
+    const [localWorkouts, setWorkouts] = useState<ScheduledWorkout[]>([]);
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<Error | null>(null);
+    const [error, setError] = useState<WorkoutsError | null>(null);
+
+    // Fetches without touching `isLoading`, for callers that manage it themselves.
+    const fetchWorkouts = useCallback(async () => {
+        if (store) {
+            return store.loadWorkouts();
+        }
+        const next = await ReactNativeWorkouts.getScheduledWorkouts();
+        setWorkouts(next);
+        return next;
+    }, [store]);
 
     const reload = useCallback(async () => {
         setIsLoading(true);
         setError(null);
         try {
-            const next = await ReactNativeWorkouts.getScheduledWorkouts();
-            setWorkouts(next);
-            return next;
+            return await fetchWorkouts();
         } catch (e) {
-            const err = e instanceof Error ? e : new Error(String(e));
+            const err = toWorkoutsError(e);
             setError(err);
             throw err;
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [fetchWorkouts]);
 
     const removeAll = useCallback(async () => {
         setIsLoading(true);
         setError(null);
         try {
-            await ReactNativeWorkouts.removeAllScheduledWorkouts();
-            setWorkouts([]);
+            if (store) {
+                await store.removeAll();
+            } else {
+                await ReactNativeWorkouts.removeAllScheduledWorkouts();
+                setWorkouts([]);
+            }
         } catch (e) {
-            const err = e instanceof Error ? e : new Error(String(e));
+            const err = toWorkoutsError(e);
             setError(err);
             throw err;
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [store]);
+
+    const remove = useCallback(
+        async (id: string, date?: DateComponents) => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                if (store) {
+                    await store.remove(id, date);
+                } else {
+                    await ReactNativeWorkouts.removeScheduledWorkout(id, date);
+                    // The removal succeeded either way; a failed refresh only shows up in `error`.
+                    fetchWorkouts().catch((e) => setError(toWorkoutsError(e)));
+                }
+            } catch (e) {
+                const err = toWorkoutsError(e);
+                setError(err);
+                throw err;
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [fetchWorkouts, store],
+    );
 
-    const remove = useCallback(async (id: string) => {
+    const removeSeries = useCallback(
+        async (seriesId: string) => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                await removeScheduledSeries(seriesId);
+                await reload();
+            } catch (e) {
+                const err = toWorkoutsError(e);
+                setError(err);
+                throw err;
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [reload],
+    );
+
+    const schedule = useCallback(
+        async (plan: WorkoutPlan, date: DateComponents) => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                if (store) {
+                    return { id: (await store.schedule(plan, date)).id };
+                }
+                 const result = await plan.scheduleAndSync(date);
+                await reload();
+                return { id: result.id };
+            } catch (e) {
+                const err = toWorkoutsError(e);
+                setError(err);
+                throw err;
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [reload, store],
+    );
+
+    const scheduleRecurringPlan = useCallback(
+        async (plan: WorkoutPlan, rule: RecurrenceRule | string) => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const result = await scheduleRecurring(plan, rule);
+                await reload();
+                return result;
+            } catch (e) {
+                const err = toWorkoutsError(e);
+                setError(err);
+                throw err;
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [reload],
+    );
+
+    const scheduleManyPlans = useCallback(
+        async (items: ScheduleManyItem[], options?: ScheduleManyOptions) => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const result = await scheduleMany(items, options);
+                await fetchWorkouts();
+                return result;
+            } catch (e) {
+                const err = toWorkoutsError(e);
+                setError(err);
+                throw err;
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [fetchWorkouts],
+    );
+
+    const workouts = store ? shared.workouts ?? NO_WORKOUTS : localWorkouts;
+    const series = useMemo(() => groupScheduledWorkouts(workouts), [workouts]);
+
+    useEffect(() => {
+        if (store?.getSnapshot().workouts) return;
+        void reload();
+    }, [reload, store]);
+
+    return {
+        workouts,
+        series,
+        isLoading,
+        error,
+        reload,
+        removeAll,
+        remove,
+        removeSeries,
+        schedule,
+        scheduleMany: scheduleManyPlans,
+        scheduleRecurring: scheduleRecurringPlan,
+    };
+}
+
+export type UseTrainingProgramResult = {
+    /**
+     * `null` until scheduled workouts have been loaded (or when `program` is `null`).
+     */
+    progress: TrainingProgramProgress | null;
+    isLoading: boolean;
+    error: WorkoutsError | null;
+    /**
+     * Reloads scheduled workouts from native and recomputes `progress`.
+     */
+    reload: () => Promise<void>;
+    /**
+     * Schedules the next window of the program (see `scheduleProgram`), then reloads.
+     */
+    schedule: (
+        options?: ScheduleProgramOptions,
+    ) => Promise<ScheduleProgramResult>;
+    /**
+     * Removes the program's scheduled occurrences, then reloads.
+     */
+    unschedule: () => Promise<number>;
+};
+
+/**
+ * Tracks a `TrainingProgram` against the workouts currently scheduled on the Watch.
+ *
+ * Nothing is scheduled automatically; call `schedule()` (e.g. on app launch) to fill the rolling
+ * window.
+ */
+export function useTrainingProgram(
+    program: TrainingProgram | null,
+): UseTrainingProgramResult {
+    const store = useWorkoutsStore();
+    const shared = useWorkoutsSnapshot(store);
+    const [localScheduled, setScheduled] = useState<ScheduledWorkout[] | null>(
+        null,
+    );
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<WorkoutsError | null>(null);
+
+    const reload = useCallback(async () => {
         setIsLoading(true);
         setError(null);
         try {
-            await ReactNativeWorkouts.removeScheduledWorkout(id);
-            setWorkouts((prev) => prev.filter((w) => w.id !== id));
+            if (store) {
+                await store.loadWorkouts();
+            } else {
+                setScheduled(await ReactNativeWorkouts.getScheduledWorkouts());
+            }
         } catch (e) {
-            const err = e instanceof Error ? e : new Error(String(e));
+            const err = toWorkoutsError(e);
             setError(err);
             throw err;
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [store]);
 
     const schedule = useCallback(
-        async (plan: WorkoutPlan, date: DateComponents) => {
+        async (options?: ScheduleProgramOptions) => {
+            if (!program) {
+                throw new WorkoutsStateError(
+                    "InvalidState",
+                    "No training program to schedule",
+                );
+            }
             setIsLoading(true);
             setError(null);
             try {
-                 const result = await plan.scheduleAndSync(date);
+                const result = await scheduleProgram(program, options);
                 await reload();
-                return { id: result.id };
+                return result;
             } catch (e) {
-                const err = e instanceof Error ? e : new Error(String(e));
+                const err = toWorkoutsError(e);
                 setError(err);
                 throw err;
             } finally {
                 setIsLoading(false);
             }
         },
-        [reload],
+        [program, reload],
     );
 
+    const unschedule = useCallback(async () => {
+        if (!program) {
+            return 0;
+        }
+        setIsLoading(true);
+        setError(null);
+        try {
+            const removed = await unscheduleProgram(program);
+            await reload();
+            return removed;
+        } catch (e) {
+            const err = toWorkoutsError(e);
+            setError(err);
+            throw err;
+        } finally {
+            setIsLoading(false);
+        }
+    }, [program, reload]);
+
+    const scheduled = store ? shared.workouts : localScheduled;
+    const progress = useMemo(() => {
+        if (!program || !scheduled) return null;
+        try {
+            return getTrainingProgramProgress(program, scheduled);
+        } catch {
+            // Invalid programs surface through `schedule()`.
+            return null;
+        }
+    }, [program, scheduled]);
+
     useEffect(() => {
-        void reload();
-    }, [reload]);
+        if (store?.getSnapshot().workouts) return;
+        reload().catch(() => {});
+    }, [reload, store]);
 
-    return { workouts, isLoading, error, reload, removeAll, remove, schedule };
+    return { progress, isLoading, error, reload, schedule, unschedule };
 }
@@ -1,3 +1,42 @@
 export { default } from "./ReactNativeWorkoutsModule";
 export * from "./ReactNativeWorkouts.types";
 export * from "./hooks";
+export {
+  type WorkoutsProviderProps,
+  WorkoutsProvider,
+} from "./WorkoutsProvider";
+export * from "./errors";
+export * from "./validation";
+export * from "./planExport";
+export * from "./exportSchema";
+export * from "./recurrence";
+export * from "./trainingProgram";
+export * from "./reconcile";
+export * from "./batchSchedule";
+export {
+  WORKOUT_METADATA_STORAGE_KEY,
+  type WorkoutMetadataStorage,
+  type WorkoutMetadataStorageOptions,
+  configureWorkoutMetadataStorage,
+  createMemoryMetadataStorage,
+  getScheduledWorkoutMetadata,
+} from "./scheduledMetadata";
+export {
+  DEFAULT_WORKOUT_PLAN_CACHE_SIZE,
+  type WorkoutPlanCacheOptions,
+  type WorkoutPlanCacheStats,
+  clearWorkoutPlanCache,
+  configureWorkoutPlanCache,
+  getWorkoutPlanCacheStats,
+} from "./planCache";
+export * from "./builder";
+export * from "./shorthand";
+export * from "./timeline";
+export * from "./zwo";
+export * from "./fit";
+export * from "./erg";
+export * from "./trainingPeaks";
+export * from "./heartRateZones";
+export * from "./powerZones";
+export * from "./paceZones";
+export * from "./unitConversion";
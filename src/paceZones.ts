@@ -0,0 +1,205 @@
+import type {
+  CustomWorkoutConfig,
+  DistanceTimePacerTarget,
+  DistanceUnit,
+  PaceAlert,
+  PaceUnit,
+  PaceZoneAlert,
+  PaceZoneName,
+  PacerTarget,
+  PacerWorkoutConfig,
+  TimeUnit,
+  WorkoutAlert,
+} from "./ReactNativeWorkouts.types";
+import { convertPace } from "./unitConversion";
+import {
+  METERS_PER_PACE_UNIT,
+  canonicalPaceUnit,
+  toMeters,
+  toSeconds,
+} from "./units";
+
+export interface RaceResult {
+  distance: number;
+  /**
+   * Defaults to meters.
+   */
+  distanceUnit?: DistanceUnit;
+  time: number;
+  /**
+   * Defaults to seconds.
+   */
+  timeUnit?: TimeUnit;
+}
+
+export interface PaceZoneRange {
+  name: PaceZoneName;
+  /**
+   * Fastest pace of the zone (smallest minutes per unit).
+   */
+  min: number;
+  /**
+   * Slowest pace of the zone.
+   */
+  max: number;
+}
+
+export interface PaceZones {
+  vdot: number;
+  /**
+   * Unit of every `min`/`max` in `zones`.
+   */
+  unit: PaceUnit;
+  zones: PaceZoneRange[];
+}
+
+export interface PaceZoneOptions {
+  /**
+   * Defaults to `"minutesPerKilometer"`.
+   */
+  unit?: PaceUnit;
+}
+
+/**
+ * Daniels training intensities as fractions of VDOT (VO2 at the training pace / VDOT).
+ */
+export const DANIELS_PACE_ZONES: Readonly<
+  Record<PaceZoneName, { min: number; max: number }>
+> = {
+  easy: { min: 0.59, max: 0.74 },
+  marathon: { min: 0.75, max: 0.84 },
+  threshold: { min: 0.83, max: 0.88 },
+  interval: { min: 0.95, max: 1 },
+  repetition: { min: 1.05, max: 1.1 },
+};
+
+// Daniels & Gilbert: oxygen cost of running at `v` meters per minute.
+function oxygenCost(metersPerMinute: number): number {
+  return -4.6 + 0.182258 * metersPerMinute + 0.000104 * metersPerMinute ** 2;
+}
+
+// Inverse of `oxygenCost`.
+function velocityForOxygenCost(vo2: number): number {
+  const a = 0.000104;
+  const b = 0.182258;
+  const c = -4.6 - vo2;
+  return (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+}
+
+// Fraction of VO2max a runner can sustain for a race of `minutes`.
+function sustainableFraction(minutes: number): number {
+  return (
+    0.8 +
+    0.1894393 * Math.exp(-0.012778 * minutes) +
+    0.2989558 * Math.exp(-0.1932605 * minutes)
+  );
+}
+
+/**
+ * Daniels' VDOT (pseudo VO2max) for a race result.
+ */
+export function computeVdot(race: RaceResult): number {
+  const meters = toMeters(race.distance, race.distanceUnit);
+  const minutes = toSeconds(race.time, race.timeUnit) / 60;
+  if (!(meters > 0) || !(minutes > 0)) {
+    throw new Error("Race distance and time must be positive numbers");
+  }
+  return oxygenCost(meters / minutes) / sustainableFraction(minutes);
+}
+
+function minutesPerUnit(metersPerMinute: number, unit: PaceUnit): number {
+  return METERS_PER_PACE_UNIT[unit] / metersPerMinute;
+}
+
+/**
+ * Computes Daniels E/M/T/I/R pace zones from a recent race result.
+ */
+export function computePaceZones(
+  race: RaceResult,
+  options: PaceZoneOptions = {},
+): PaceZones {
+  const vdot = computeVdot(race);
+  const unit = canonicalPaceUnit(options.unit);
+  const zones = (Object.keys(DANIELS_PACE_ZONES) as PaceZoneName[]).map(
+    (name) => {
+      const { min, max } = DANIELS_PACE_ZONES[name];
+      return {
+        name,
+        // Higher intensity = faster = fewer minutes per unit.
+        min: minutesPerUnit(velocityForOxygenCost(max * vdot), unit),
+        max: minutesPerUnit(velocityForOxygenCost(min * vdot), unit),
+      };
+    },
+  );
+  return { vdot, unit, zones };
+}
+
+function findZone(zones: PaceZones, name: PaceZoneName): PaceZoneRange {
+  const zone = zones.zones.find((candidate) => candidate.name === name);
+  if (!zone) {
+    throw new Error(`Pace zone "${name}" is not defined`);
+  }
+  return zone;
+}
+
+/**
+ * Resolves a symbolic pace zone alert into a concrete `PaceAlert`. Concrete alerts are returned
+ * unchanged.
+ */
+export function resolvePaceAlert(
+  alert: PaceAlert | PaceZoneAlert,
+  zones: PaceZones,
+): PaceAlert {
+  if (!("zone" in alert)) return alert;
+  const zone = findZone(zones, alert.zone);
+  const unit = canonicalPaceUnit(alert.unit ?? zones.unit);
+  const min = convertPace(zone.min, zones.unit, unit);
+  const max = convertPace(zone.max, zones.unit, unit);
+  if (alert.offsetSeconds === undefined) {
+    return { type: "pace", min, max, unit };
+  }
+  const center = (min + max) / 2;
+  const offset = alert.offsetSeconds / 60;
+  return { type: "pace", min: center - offset, max: center + offset, unit };
+}
+
+/**
+ * Returns a copy of `config` with every `PaceZoneAlert` resolved to a `PaceAlert`.
+ */
+export function resolvePaceAlerts(
+  config: CustomWorkoutConfig,
+  zones: PaceZones,
+): CustomWorkoutConfig {
+  const resolveStep = <T extends { alert?: WorkoutAlert }>(step: T): T =>
+    step.alert?.type === "pace" && "zone" in step.alert
+      ? { ...step, alert: resolvePaceAlert(step.alert, zones) }
+      : step;
+
+  return {
+    ...config,
+    ...(config.warmup && { warmup: resolveStep(config.warmup) }),
+    blocks: config.blocks.map((block) => ({
+      ...block,
+      steps: block.steps.map(resolveStep),
+    })),
+    ...(config.cooldown && { cooldown: resolveStep(config.cooldown) }),
+  };
+}
+
+/**
+ * Returns a copy of `config` whose `PaceZoneTarget` is resolved to the middle of the zone.
+ */
+export function resolvePacerTarget(
+  config: PacerWorkoutConfig,
+  zones: PaceZones,
+): PacerWorkoutConfig & { target: PacerTarget | DistanceTimePacerTarget } {
+  const { target } = config;
+  if (!("zone" in target)) {
+    return { ...config, target };
+  }
+  const { min, max, unit } = resolvePaceAlert(
+    { type: "pace", zone: target.zone, unit: target.unit },
+    zones,
+  );
+  return { ...config, target: { type: "pace", value: (min + max) / 2, unit } };
+}
@@ -0,0 +1,150 @@
+import type { WorkoutPlan } from "./ReactNativeWorkouts.types";
+import { canonicalJson } from "./canonicalJson";
+import { canonicalizeUnits } from "./units";
+
+export interface WorkoutPlanCacheOptions {
+  /**
+   * How many plans no hook uses anymore are kept alive for reuse. The least recently used ones
+   * are released first. Defaults to `DEFAULT_WORKOUT_PLAN_CACHE_SIZE`; 0 releases plans as soon
+   * as their last hook unmounts.
+   */
+  maxIdle?: number;
+}
+
+export interface WorkoutPlanCacheStats {
+  /**
+   * Plans handed out without creating a new one.
+   */
+  hits: number;
+  /**
+   * Plans that had to be created in native.
+   */
+  misses: number;
+  /**
+   * Plans currently held by at least one hook.
+   */
+  inUse: number;
+  /**
+   * Plans no hook holds, kept for reuse.
+   */
+  idle: number;
+}
+
+export const DEFAULT_WORKOUT_PLAN_CACHE_SIZE = 8;
+
+type PlanFactory<TConfig> = (config: TConfig) => Promise<WorkoutPlan>;
+
+interface CacheEntry {
+  plan: Promise<WorkoutPlan>;
+  refs: number;
+}
+
+// Map order doubles as the LRU order: entries are moved to the end when they go idle.
+const entries = new Map<string, CacheEntry>();
+const factoryIds = new WeakMap<PlanFactory<never>, number>();
+let nextFactoryId = 0;
+let maxIdle = DEFAULT_WORKOUT_PLAN_CACHE_SIZE;
+let hits = 0;
+let misses = 0;
+
+function releaseEntry(entry: CacheEntry): void {
+  entry.plan.then((plan) => plan.release()).catch(() => {});
+}
+
+function evictIdle(): void {
+  let idle = [...entries.values()].filter((entry) => entry.refs === 0).length;
+  for (const [key, entry] of entries) {
+    if (idle <= maxIdle) break;
+    if (entry.refs > 0) continue;
+    entries.delete(key);
+    releaseEntry(entry);
+    idle -= 1;
+  }
+}
+
+/**
+ * Cache key of `config` for `createPlan`: key order, unit aliases and `undefined` properties
+ * don't matter.
+ */
+export function workoutPlanCacheKey<TConfig>(
+  createPlan: PlanFactory<TConfig>,
+  config: TConfig,
+): string {
+  let factoryId = factoryIds.get(createPlan);
+  if (factoryId === undefined) {
+    factoryId = nextFactoryId++;
+    factoryIds.set(createPlan, factoryId);
+  }
+  return `${factoryId}:${canonicalJson(canonicalizeUnits(config))}`;
+}
+
+/**
+ * Returns the cached plan for `config`, creating it on a miss. Call `release()` once when done;
+ * the plan stays alive while anyone else holds it. Used by the `use*Workout` hooks.
+ */
+export function acquireWorkoutPlan<TConfig>(
+  createPlan: PlanFactory<TConfig>,
+  config: TConfig,
+): { plan: Promise<WorkoutPlan>; release: () => void } {
+  const key = workoutPlanCacheKey(createPlan, config);
+  let entry = entries.get(key);
+  if (entry) {
+    hits += 1;
+    entry.refs += 1;
+  } else {
+    misses += 1;
+    const created: CacheEntry = { plan: createPlan(config), refs: 1 };
+    // Failed creations aren't cached, so the next caller retries.
+    created.plan.catch(() => {
+      if (entries.get(key) === created) entries.delete(key);
+    });
+    entries.set(key, created);
+    entry = created;
+  }
+
+  const acquired = entry;
+  let released = false;
+  return {
+    plan: acquired.plan,
+    release: () => {
+      if (released) return;
+      released = true;
+      acquired.refs -= 1;
+      if (acquired.refs > 0 || entries.get(key) !== acquired) return;
+      entries.delete(key);
+      entries.set(key, acquired);
+      evictIdle();
+    },
+  };
+}
+
+/**
+ * Changes the cache size. Idle plans over the new limit are released right away.
+ */
+export function configureWorkoutPlanCache(
+  options: WorkoutPlanCacheOptions,
+): void {
+  maxIdle = Math.max(0, Math.floor(options.maxIdle ?? maxIdle));
+  evictIdle();
+}
+
+/**
+ * Hit/miss counters and current size of the plan cache, for debugging.
+ */
+export function getWorkoutPlanCacheStats(): WorkoutPlanCacheStats {
+  const inUse = [...entries.values()].filter((entry) => entry.refs > 0).length;
+  return { hits, misses, inUse, idle: entries.size - inUse };
+}
+
+/**
+ * Releases every idle plan and resets the counters. Plans still held by hooks are kept.
+ */
+export function clearWorkoutPlanCache(): void {
+  for (const [key, entry] of entries) {
+    if (entry.refs > 0) continue;
+    entries.delete(key);
+    releaseEntry(entry);
+  }
+  hits = 0;
+  misses = 0;
+}
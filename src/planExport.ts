@@ -0,0 +1,120 @@
+import type {
+  WorkoutPlan,
+  WorkoutPlanDefinition,
+  WorkoutPlanExport,
+  WorkoutPlanKind,
+} from "./ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
+import { WorkoutsConfigError } from "./errors";
+import {
+  type WorkoutExportOptions,
+  migrateWorkoutExport,
+  verifyWorkoutExport,
+} from "./exportSchema";
+import { type WorkoutConfigIssue, validateWorkoutConfig } from "./validation";
+
+const PLAN_KINDS: readonly WorkoutPlanKind[] = [
+  "custom",
+  "singleGoal",
+  "pacer",
+  "swimBikeRun",
+];
+
+function formatIssue(issue: WorkoutConfigIssue): string {
+  return `${issue.path || "(root)"}: ${issue.message}`;
+}
+
+function invalidExport(issues: WorkoutConfigIssue[]): WorkoutsConfigError {
+  return new WorkoutsConfigError(
+    "InvalidConfig",
+    `Invalid workout plan export: ${issues.map(formatIssue).join("; ")}`,
+  );
+}
+
+/**
+ * Checks that `value` is a `WorkoutPlanExport` whose `config` is valid for its `kind`.
+ *
+ * Throws a `WorkoutsConfigError` (`code: "InvalidConfig"`) listing every issue with its path,
+ * e.g. `config.blocks[0].steps[1].goal.value: Distance value must be > 0, got 0`.
+ */
+export function parseWorkoutPlanExport(value: unknown): WorkoutPlanExport {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw invalidExport([
+      { path: "", code: "invalidType", message: "Export must be an object" },
+    ]);
+  }
+
+  const { id, kind, config } = value as Record<string, unknown>;
+  const issues: WorkoutConfigIssue[] = [];
+
+  if (typeof id !== "string") {
+    issues.push({
+      path: "id",
+      code: id === undefined || id === null ? "required" : "invalidType",
+      message: "Export id must be a string",
+    });
+  }
+
+  if (typeof kind !== "string" || !PLAN_KINDS.includes(kind as never)) {
+    issues.push({
+      path: "kind",
+      code: kind === undefined || kind === null ? "required" : "unknownValue",
+      message: `Export kind must be one of ${PLAN_KINDS.join(", ")}`,
+    });
+  } else {
+    for (const issue of validateWorkoutConfig(kind as WorkoutPlanKind, config)
+      .issues) {
+      issues.push({
+        ...issue,
+        path: issue.path ? `config.${issue.path}` : "config",
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw invalidExport(issues);
+  }
+  return { ...(value as WorkoutPlanExport), config };
+}
+
+/**
+ * Creates a `WorkoutPlan` with the factory for `definition.kind`.
+ */
+export function createWorkoutPlan(
+  definition: WorkoutPlanDefinition,
+): Promise<WorkoutPlan> {
+  switch (definition.kind) {
+    case "custom":
+      return ReactNativeWorkouts.createCustomWorkoutPlan(definition.config);
+    case "singleGoal":
+      return ReactNativeWorkouts.createSingleGoalWorkoutPlan(definition.config);
+    case "pacer":
+      return ReactNativeWorkouts.createPacerWorkoutPlan(definition.config);
+    case "swimBikeRun":
+      return ReactNativeWorkouts.createSwimBikeRunWorkoutPlan(
+        definition.config,
+      );
+  }
+}
+
+/**
+ * Recreates a `WorkoutPlan` from the payload returned by `plan.export()`, picking the factory
+ * for its `kind`. The new plan has a new `id`.
+ *
+ * The payload is checked with `verifyWorkoutExport` and older ones are upgraded with
+ * `migrateWorkoutExport` first. Rejects with a
+ * `WorkoutsConfigError` if the payload was modified, has an unknown `schemaVersion`, is
+ * malformed (see `parseWorkoutPlanExport`), or has no `schemaVersion` and
+ * `options.allowUnversioned` isn't set.
+ */
+export async function createWorkoutPlanFromExport(
+  exported: unknown,
+  options: WorkoutExportOptions = {},
+): Promise<WorkoutPlan> {
+  verifyWorkoutExport(exported, options);
+  const { kind, config } = parseWorkoutPlanExport(
+    migrateWorkoutExport(exported),
+  );
+  // `parseWorkoutPlanExport` validated `config` for `kind`.
+  return createWorkoutPlan({ kind, config } as WorkoutPlanDefinition);
+}
@@ -0,0 +1,117 @@
+import type {
+  CustomWorkoutConfig,
+  PercentFtpPowerAlert,
+  PowerAlert,
+  PowerZoneAlert,
+  PowerZoneName,
+  WorkoutAlert,
+} from "./ReactNativeWorkouts.types";
+
+export interface PowerZone {
+  /**
+   * 1-based Coggan zone number.
+   */
+  zone: number;
+  name: PowerZoneName;
+  minPercentFtp: number;
+  maxPercentFtp: number;
+}
+
+/**
+ * Coggan's 7 power zones as % of FTP. Zones 1 and 7 are open-ended in the original table; they
+ * are bounded at 45% and 300% here so the Watch gets a range.
+ */
+export const COGGAN_POWER_ZONES: readonly PowerZone[] = [
+  { zone: 1, name: "activeRecovery", minPercentFtp: 45, maxPercentFtp: 55 },
+  { zone: 2, name: "endurance", minPercentFtp: 56, maxPercentFtp: 75 },
+  { zone: 3, name: "tempo", minPercentFtp: 76, maxPercentFtp: 90 },
+  { zone: 4, name: "threshold", minPercentFtp: 91, maxPercentFtp: 105 },
+  { zone: 5, name: "vo2Max", minPercentFtp: 106, maxPercentFtp: 120 },
+  {
+    zone: 6,
+    name: "anaerobicCapacity",
+    minPercentFtp: 121,
+    maxPercentFtp: 150,
+  },
+  { zone: 7, name: "neuromuscular", minPercentFtp: 151, maxPercentFtp: 300 },
+];
+
+/**
+ * Any of the power alert shapes: absolute watts, % of FTP, or a named zone.
+ */
+export type PowerTargetAlert =
+  | PowerAlert
+  | PercentFtpPowerAlert
+  | PowerZoneAlert;
+
+function assertFtp(ftp: number | undefined): asserts ftp is number {
+  if (ftp === undefined || !Number.isFinite(ftp) || ftp <= 0) {
+    throw new Error(`FTP must be a positive number of watts, got ${ftp}`);
+  }
+}
+
+/**
+ * Returns the `{ min, max }` range of a power alert in % of FTP. `ftp` is only needed for
+ * absolute (watts) alerts.
+ */
+export function powerAlertPercentFtp(
+  alert: PowerTargetAlert,
+  ftp?: number,
+): { min: number; max: number } {
+  if ("zone" in alert) {
+    const zone = COGGAN_POWER_ZONES.find(
+      (candidate) => candidate.name === alert.zone,
+    );
+    if (!zone) {
+      throw new Error(`Unknown power zone "${alert.zone}"`);
+    }
+    return { min: zone.minPercentFtp, max: zone.maxPercentFtp };
+  }
+  if ("minPercentFtp" in alert) {
+    return { min: alert.minPercentFtp, max: alert.maxPercentFtp };
+  }
+  assertFtp(ftp);
+  return { min: (alert.min / ftp) * 100, max: (alert.max / ftp) * 100 };
+}
+
+/**
+ * Turns a relative (`minPercentFtp`/`maxPercentFtp`) or zone power alert into the watts range
+ * the native module expects. Absolute alerts are returned unchanged.
+ */
+export function resolvePowerAlert(
+  alert: PowerTargetAlert,
+  ftp: number,
+): PowerAlert {
+  if ("min" in alert) return alert;
+  assertFtp(ftp);
+  const { min, max } = powerAlertPercentFtp(alert, ftp);
+  return {
+    type: "power",
+    min: Math.round((min / 100) * ftp),
+    max: Math.round((max / 100) * ftp),
+  };
+}
+
+/**
+ * Returns a copy of `config` with every relative or zone power alert resolved to watts.
+ */
+export function resolvePowerAlerts(
+  config: CustomWorkoutConfig,
+  ftp: number,
+): CustomWorkoutConfig {
+  assertFtp(ftp);
+  const resolveStep = <T extends { alert?: WorkoutAlert }>(step: T): T =>
+    step.alert?.type === "power" && !("min" in step.alert)
+      ? { ...step, alert: resolvePowerAlert(step.alert, ftp) }
+      : step;
+
+  return {
+    ...config,
+    ...(config.warmup && { warmup: resolveStep(config.warmup) }),
+    blocks: config.blocks.map((block) => ({
+      ...block,
+      steps: block.steps.map(resolveStep),
+    })),
+    ...(config.cooldown && { cooldown: resolveStep(config.cooldown) }),
+  };
+}
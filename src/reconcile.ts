@@ -0,0 +1,256 @@
+import type {
+  DateComponents,
+  ScheduledWorkout,
+  WorkoutPlanExport,
+} from "./ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
+import { dateFromComponents, isSameScheduledDate } from "./dates";
+import {
+  WorkoutsConfigError,
+  type WorkoutsError,
+  toWorkoutsError,
+} from "./errors";
+import {
+  computeWorkoutExportChecksum,
+  migrateWorkoutExport,
+  verifyWorkoutExport,
+} from "./exportSchema";
+import {
+  createWorkoutPlanFromExport,
+  parseWorkoutPlanExport,
+} from "./planExport";
+import { canonicalizeUnits } from "./units";
+
+export interface DesiredScheduledWorkout {
+  export: WorkoutPlanExport;
+  date: DateComponents;
+}
+
+export type ReconcileAction = "add" | "remove" | "reschedule" | "keep";
+
+export interface ReconcileItemResult {
+  action: ReconcileAction;
+  /**
+   * `planned` in dry-run mode (and for `keep`), otherwise `applied` or `failed`.
+   */
+  status: "planned" | "applied" | "failed";
+  /**
+   * Index in `desired` (missing for `remove`).
+   */
+  desiredIndex?: number;
+  /**
+   * The currently scheduled workout this item keeps, moves or removes.
+   */
+  scheduled?: ScheduledWorkout;
+  /**
+   * Date the workout ends up on (missing for `remove`).
+   */
+  date?: DateComponents;
+  /**
+   * ID of the newly scheduled workout, for applied `add` / `reschedule`.
+   */
+  id?: string;
+  error?: WorkoutsError;
+}
+
+export interface ReconcileOptions {
+  /**
+   * Compute the changes without applying them. Defaults to `false`.
+   */
+  dryRun?: boolean;
+  /**
+   * Which scheduled workouts reconciliation may keep, move or remove. Defaults to workouts the
+   * metadata registry knows (`kind` is set), so workouts it has no record of are left alone.
+   */
+  manages?: (workout: ScheduledWorkout) => boolean;
+  /**
+   * Accept desired exports without a `schemaVersion` (see `WorkoutExportOptions`). Defaults to
+   * `false`: such items fail.
+   */
+  allowUnversioned?: boolean;
+}
+
+export interface ReconcileResult {
+  dryRun: boolean;
+  items: ReconcileItemResult[];
+  added: number;
+  removed: number;
+  rescheduled: number;
+  kept: number;
+  failed: number;
+}
+
+// Identifies a workout by what it is, not by plan instance: recreated plans get new IDs.
+function contentKey(kind: string, config: unknown): string {
+  return computeWorkoutExportChecksum({
+    id: "",
+    kind: kind as WorkoutPlanExport["kind"],
+    config: canonicalizeUnits(config),
+  });
+}
+
+function checkDate(date: DateComponents): void {
+  if (!dateFromComponents(date)) {
+    throw new WorkoutsConfigError(
+      "InvalidConfig",
+      "date must be a valid date with a year, month and day",
+    );
+  }
+}
+
+async function scheduleExport(
+  exported: WorkoutPlanExport,
+  date: DateComponents,
+): Promise<string> {
+  const plan = await createWorkoutPlanFromExport(exported);
+  try {
+    return (await plan.scheduleAndSync(date)).id;
+  } finally {
+    plan.release();
+  }
+}
+
+/**
+ * Makes the scheduled workouts match `desired` with as few changes as possible:
+ *
+ * - a desired workout already scheduled on its date is kept;
+ * - one scheduled on another date is moved (`reschedule`);
+ * - missing ones are added, and managed workouts nobody wants anymore are removed.
+ *
+ * Workouts are matched by `kind` + `config` (via the metadata registry, so configure persistent
+ * storage with `configureWorkoutMetadataStorage`). Each item is applied independently; failures
+ * are reported per item instead of rejecting.
+ */
+export async function reconcileSchedule(
+  desired: DesiredScheduledWorkout[],
+  options: ReconcileOptions = {},
+): Promise<ReconcileResult> {
+  const {
+    dryRun = false,
+    manages = (workout: ScheduledWorkout) => workout.kind !== undefined,
+    allowUnversioned = false,
+  } = options;
+
+  const items: ReconcileItemResult[] = [];
+  const wanted: {
+    index: number;
+    exported: WorkoutPlanExport;
+    key: string;
+    date: DateComponents;
+  }[] = [];
+  desired.forEach((item, index) => {
+    try {
+      verifyWorkoutExport(item.export, { allowUnversioned });
+      const exported = parseWorkoutPlanExport(
+        migrateWorkoutExport(item.export),
+      );
+      checkDate(item.date);
+      wanted.push({
+        index,
+        exported,
+        key: contentKey(exported.kind, exported.config),
+        date: item.date,
+      });
+    } catch (e) {
+      items.push({
+        action: "add",
+        status: "failed",
+        desiredIndex: index,
+        date: item.date,
+        error: toWorkoutsError(e),
+      });
+    }
+  });
+
+  const available = (await ReactNativeWorkouts.getScheduledWorkouts())
+    .filter(manages)
+    .map((workout) => ({
+      workout,
+      key:
+        workout.kind === undefined
+          ? undefined
+          : contentKey(workout.kind, workout.config),
+    }));
+  const take = (
+    predicate: (candidate: (typeof available)[number]) => boolean,
+  ): ScheduledWorkout | undefined => {
+    const index = available.findIndex(predicate);
+    return index === -1 ? undefined : available.splice(index, 1)[0].workout;
+  };
+
+  // Exact matches first, so a moved workout can't steal a slot that is already right.
+  const plans: (ReconcileItemResult & { exported?: WorkoutPlanExport })[] = [];
+  const unmatched: typeof wanted = [];
+  for (const item of wanted) {
+    const scheduled = take(
+      (candidate) =>
+        candidate.key === item.key &&
+        isSameScheduledDate(candidate.workout.date, item.date),
+    );
+    if (scheduled) {
+      plans.push({
+        action: "keep",
+        status: "planned",
+        desiredIndex: item.index,
+        scheduled,
+        date: item.date,
+      });
+    } else {
+      unmatched.push(item);
+    }
+  }
+  for (const item of unmatched) {
+    const scheduled = take((candidate) => candidate.key === item.key);
+    plans.push({
+      action: scheduled ? "reschedule" : "add",
+      status: "planned",
+      desiredIndex: item.index,
+      ...(scheduled && { scheduled }),
+      date: item.date,
+      exported: item.exported,
+    });
+  }
+  // Removals run first so a full schedule has room for the additions.
+  const removals: ReconcileItemResult[] = available.map(({ workout }) => ({
+    action: "remove",
+    status: "planned",
+    scheduled: workout,
+  }));
+
+  for (const plan of [...removals, ...plans]) {
+    const { exported, ...item } = plan as (typeof plans)[number];
+    if (!dryRun && item.action !== "keep") {
+      try {
+        // A reschedule adds the new date before removing the old one, so a failure never
+        // leaves the workout off the Watch.
+        if (exported && item.date) {
+          item.id = await scheduleExport(exported, item.date);
+        }
+        if (item.scheduled) {
+          await ReactNativeWorkouts.removeScheduledWorkout(
+            item.scheduled.id,
+            item.scheduled.date,
+          );
+        }
+        item.status = "applied";
+      } catch (e) {
+        item.status = "failed";
+        item.error = toWorkoutsError(e);
+      }
+    }
+    items.push(item);
+  }
+
+  const count = (action: ReconcileAction) =>
+    items.filter((item) => item.action === action && item.status !== "failed")
+      .length;
+  return {
+    dryRun,
+    items,
+    added: count("add"),
+    removed: count("remove"),
+    rescheduled: count("reschedule"),
+    kept: count("keep"),
+    failed: items.filter((item) => item.status === "failed").length,
+  };
+}
@@ -0,0 +1,364 @@
+import type {
+  DateComponents,
+  ScheduledWorkout,
+  WorkoutPlan,
+} from "./ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
+import { scheduleMany } from "./batchSchedule";
+import {
+  compareDateComponents,
+  dateFromComponents,
+  dateToComponents,
+} from "./dates";
+import { WorkoutsConfigError } from "./errors";
+import { createWorkoutPlanFromExport } from "./planExport";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export type RecurrenceWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+/**
+ * The supported subset of an RFC 5545 recurrence rule.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /**
+   * First possible occurrence (`DTSTART`). `year`, `month` and `day` are required; its `hour` and
+   * `minute` (default 00:00) are used for every occurrence.
+   */
+  start: DateComponents;
+  /**
+   * Weekdays to schedule on. For `WEEKLY` it defaults to the weekday of `start`; for `MONTHLY`
+   * it selects every matching weekday of the month instead of the day of `start`.
+   */
+  byDay?: RecurrenceWeekday[];
+  /**
+   * Every `interval` days / weeks / months. Defaults to 1.
+   */
+  interval?: number;
+  /**
+   * Number of occurrences. One of `count` or `until` is required.
+   */
+  count?: number;
+  /**
+   * Last day (inclusive) an occurrence may fall on.
+   */
+  until?: DateComponents;
+}
+
+export interface RecurringScheduleResult {
+  /**
+   * ID shared by every occurrence of the series (the ID `getScheduledWorkouts()` reports).
+   */
+  seriesId: string;
+  occurrences: DateComponents[];
+}
+
+/**
+ * Scheduled workouts grouped by ID. A one-off schedule is a series with a single occurrence.
+ */
+export interface ScheduledWorkoutSeries {
+  id: string;
+  /**
+   * Sorted chronologically.
+   */
+  occurrences: DateComponents[];
+}
+
+/**
+ * Upper bound on how many dates a rule may expand to.
+ */
+export const MAX_RECURRENCE_OCCURRENCES = 366;
+
+const WEEKDAYS: readonly RecurrenceWeekday[] = [
+  "MO",
+  "TU",
+  "WE",
+  "TH",
+  "FR",
+  "SA",
+  "SU",
+];
+
+function invalidRule(message: string): WorkoutsConfigError {
+  return new WorkoutsConfigError("InvalidConfig", `Invalid RRULE: ${message}`);
+}
+
+function parsePositiveInteger(name: string, value: string): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < 1) {
+    throw invalidRule(`${name} must be a positive integer, got "${value}"`);
+  }
+  return number;
+}
+
+// `YYYYMMDD` or `YYYYMMDDTHHMM[SS]`, local time (UTC `Z` values aren't supported).
+function parseRuleDate(name: string, value: string): DateComponents {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?$/.exec(
+    value,
+  );
+  if (!match) {
+    throw invalidRule(
+      `${name} must be a local date (YYYYMMDD or YYYYMMDDTHHMMSS), got "${value}"`,
+    );
+  }
+  const [, year, month, day, hour, minute] = match;
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    ...(hour !== undefined && { hour: Number(hour), minute: Number(minute) }),
+  };
+}
+
+/**
+ * Parses an RRULE string such as
+ * `DTSTART:20261020T063000\nRRULE:FREQ=WEEKLY;BYDAY=TU,TH;COUNT=16`.
+ *
+ * Supports `FREQ` (`DAILY`, `WEEKLY`, `MONTHLY`), `BYDAY` (plain weekdays), `INTERVAL`, `COUNT`
+ * and `UNTIL`. `DTSTART` may be given in the string or via `start`, which wins. Anything else
+ * throws a `WorkoutsConfigError`.
+ */
+export function parseRecurrenceRule(
+  text: string,
+  start?: DateComponents,
+): RecurrenceRule {
+  let ruleStart = start;
+  const parts: Record<string, string> = {};
+
+  for (const line of text.trim().split(/\s+/)) {
+    if (line.startsWith("DTSTART:")) {
+      ruleStart ??= parseRuleDate("DTSTART", line.slice("DTSTART:".length));
+      continue;
+    }
+    const body = line.startsWith("RRULE:") ? line.slice("RRULE:".length) : line;
+    for (const part of body.split(";").filter(Boolean)) {
+      const [key, value] = part.split("=");
+      if (!key || value === undefined) {
+        throw invalidRule(`expected KEY=VALUE, got "${part}"`);
+      }
+      parts[key.toUpperCase()] = value.toUpperCase();
+    }
+  }
+
+  const { FREQ, BYDAY, INTERVAL, COUNT, UNTIL, ...rest } = parts;
+  const unsupported = Object.keys(rest);
+  if (unsupported.length > 0) {
+    throw invalidRule(`unsupported part(s) ${unsupported.join(", ")}`);
+  }
+  if (FREQ !== "DAILY" && FREQ !== "WEEKLY" && FREQ !== "MONTHLY") {
+    throw invalidRule(
+      `FREQ must be DAILY, WEEKLY or MONTHLY, got ${FREQ ?? "nothing"}`,
+    );
+  }
+  if (!ruleStart) {
+    throw invalidRule("DTSTART is required");
+  }
+
+  return {
+    freq: FREQ,
+    start: ruleStart,
+    ...(BYDAY !== undefined && {
+      byDay: BYDAY.split(",").map((day) => {
+        if (!WEEKDAYS.includes(day as RecurrenceWeekday)) {
+          throw invalidRule(`unsupported BYDAY value "${day}"`);
+        }
+        return day as RecurrenceWeekday;
+      }),
+    }),
+    ...(INTERVAL !== undefined && {
+      interval: parsePositiveInteger("INTERVAL", INTERVAL),
+    }),
+    ...(COUNT !== undefined && { count: parsePositiveInteger("COUNT", COUNT) }),
+    ...(UNTIL !== undefined && { until: parseRuleDate("UNTIL", UNTIL) }),
+  };
+}
+
+function toDate(components: DateComponents, name: string): Date {
+  const date = dateFromComponents(components);
+  if (!date) {
+    throw invalidRule(
+      `${name} must be a valid date with a year, month and day`,
+    );
+  }
+  return date;
+}
+
+// Monday = 0, matching `WEEKDAYS` (RFC 5545's default WKST is MO).
+function weekdayIndex(date: Date): number {
+  return (date.getDay() + 6) % 7;
+}
+
+function atDay(base: Date, year: number, month: number, day: number): Date {
+  return new Date(year, month, day, base.getHours(), base.getMinutes());
+}
+
+// Candidate dates of period `n` (the n-th day / week / month after `start`), in order.
+function periodDates(
+  rule: RecurrenceRule,
+  start: Date,
+  n: number,
+  weekdays: Set<number> | undefined,
+): Date[] {
+  const year = start.getFullYear();
+  const month = start.getMonth();
+  const day = start.getDate();
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = atDay(start, year, month, day + n);
+      return !weekdays || weekdays.has(weekdayIndex(date)) ? [date] : [];
+    }
+    case "WEEKLY": {
+      const monday = day - weekdayIndex(start) + n * 7;
+      const days = weekdays ?? new Set([weekdayIndex(start)]);
+      return [...days]
+        .sort((a, b) => a - b)
+        .map((offset) => atDay(start, year, month, monday + offset));
+    }
+    case "MONTHLY": {
+      if (!weekdays) {
+        const date = atDay(start, year, month + n, day);
+        // Months without that day (e.g. the 31st) are skipped, as in RFC 5545.
+        return date.getDate() === day ? [date] : [];
+      }
+      const first = atDay(start, year, month + n, 1);
+      const dates: Date[] = [];
+      for (
+        let date = first;
+        date.getMonth() === first.getMonth();
+        date = atDay(
+          start,
+          date.getFullYear(),
+          date.getMonth(),
+          date.getDate() + 1,
+        )
+      ) {
+        if (weekdays.has(weekdayIndex(date))) dates.push(date);
+      }
+      return dates;
+    }
+  }
+}
+
+/**
+ * Expands a rule into the dates to schedule, starting at `start` (which is only included if it
+ * matches the rule).
+ *
+ * Throws a `WorkoutsConfigError` if the rule has neither `count` nor `until`, can never match
+ * (`DAILY` with a `BYDAY` its `INTERVAL` skips), or expands to more than
+ * `MAX_RECURRENCE_OCCURRENCES` dates.
+ */
+export function expandRecurrenceRule(
+  rule: RecurrenceRule | string,
+): DateComponents[] {
+  const parsed = typeof rule === "string" ? parseRecurrenceRule(rule) : rule;
+  const { count, interval = 1 } = parsed;
+  if (count === undefined && parsed.until === undefined) {
+    throw invalidRule("COUNT or UNTIL is required");
+  }
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw invalidRule(`INTERVAL must be a positive integer, got ${interval}`);
+  }
+  if (parsed.byDay?.length === 0) {
+    throw invalidRule("BYDAY must list at least one weekday");
+  }
+
+  const start = toDate(parsed.start, "DTSTART");
+  // UNTIL without a time covers the whole day.
+  const until =
+    parsed.until && toDate({ hour: 23, minute: 59, ...parsed.until }, "UNTIL");
+  const weekdays =
+    parsed.byDay && new Set(parsed.byDay.map((day) => WEEKDAYS.indexOf(day)));
+  // Every period is empty then, so the loop below would never reach COUNT or UNTIL.
+  if (
+    parsed.freq === "DAILY" &&
+    weekdays &&
+    interval % 7 === 0 &&
+    !weekdays.has(weekdayIndex(start))
+  ) {
+    const weekday = WEEKDAYS[weekdayIndex(start)];
+    throw invalidRule(
+      `BYDAY=${parsed.byDay!.join(",")} never matches: every ${interval} days from DTSTART is a ${weekday}`,
+    );
+  }
+
+  const occurrences: DateComponents[] = [];
+  for (let n = 0; ; n += interval) {
+    for (const date of periodDates(parsed, start, n, weekdays)) {
+      if (date < start) continue;
+      if ((until && date > until) || occurrences.length === count) {
+        return occurrences;
+      }
+      if (occurrences.length === MAX_RECURRENCE_OCCURRENCES) {
+        throw invalidRule(
+          `expands to more than ${MAX_RECURRENCE_OCCURRENCES} occurrences`,
+        );
+      }
+      occurrences.push(dateToComponents(date));
+    }
+  }
+}
+
+/**
+ * Schedules `plan` on every date of `rule`, e.g.
+ * `scheduleRecurring(plan, "DTSTART:20261020T063000\nRRULE:FREQ=WEEKLY;BYDAY=TU,TH;COUNT=16")`.
+ *
+ * The occurrences are scheduled from a copy of `plan`, so they share an ID of their own (the
+ * returned `seriesId`) even if `plan` is scheduled elsewhere too. If one occurrence fails, the
+ * ones already scheduled are removed again before rejecting.
+ */
+export async function scheduleRecurring(
+  plan: WorkoutPlan,
+  rule: RecurrenceRule | string,
+): Promise<RecurringScheduleResult> {
+  const occurrences = expandRecurrenceRule(rule);
+  const seriesPlan = await createWorkoutPlanFromExport(plan.export());
+  try {
+    const result = await scheduleMany(
+      occurrences.map((date) => ({ plan: seriesPlan, date })),
+      { atomic: true },
+    );
+    const failure = result.items.find((item) => item.status === "failed");
+    if (failure) {
+      throw failure.error;
+    }
+  } finally {
+    seriesPlan.release();
+  }
+  return { seriesId: seriesPlan.id, occurrences };
+}
+
+/**
+ * Groups scheduled workouts by ID, in order of each series' first occurrence.
+ */
+export function groupScheduledWorkouts(
+  workouts: ScheduledWorkout[],
+): ScheduledWorkoutSeries[] {
+  const byId = new Map<string, DateComponents[]>();
+  for (const workout of workouts) {
+    const occurrences = byId.get(workout.id) ?? [];
+    occurrences.push(workout.date);
+    byId.set(workout.id, occurrences);
+  }
+  return [...byId]
+    .map(([id, occurrences]) => ({
+      id,
+      occurrences: occurrences.sort(compareDateComponents),
+    }))
+    .sort((a, b) => compareDateComponents(a.occurrences[0], b.occurrences[0]));
+}
+
+/**
+ * Removes every scheduled occurrence of a series. Resolves with the number removed.
+ */
+export async function removeScheduledSeries(seriesId: string): Promise<number> {
+  const workouts = await ReactNativeWorkouts.getScheduledWorkouts();
+  let removed = 0;
+  for (const workout of workouts) {
+    if (workout.id !== seriesId) continue;
+    await ReactNativeWorkouts.removeScheduledWorkout(workout.id, workout.date);
+    removed += 1;
+  }
+  return removed;
+}
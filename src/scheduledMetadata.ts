@@ -0,0 +1,232 @@
+import type {
+  ActivityType,
+  DateComponents,
+  ScheduledWorkout,
+  WorkoutPlanExport,
+} from "./ReactNativeWorkouts.types";
+import { compareDateComponents, dateFromComponents } from "./dates";
+import { migrateWorkoutExport } from "./exportSchema";
+
+/**
+ * Key/value storage for the scheduled workout registry. AsyncStorage matches this shape as-is;
+ * for MMKV use `{ getItem: (k) => mmkv.getString(k) ?? null, setItem: (k, v) => mmkv.set(k, v) }`.
+ */
+export interface WorkoutMetadataStorage {
+  getItem(
+    key: string,
+  ): Promise<string | null | undefined> | string | null | undefined;
+  setItem(key: string, value: string): Promise<void> | void;
+}
+
+export interface WorkoutMetadataStorageOptions {
+  /**
+   * Called when reading or writing the registry fails. Scheduling itself still succeeds; the
+   * workout is just listed without metadata.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Storage key of the registry (a single JSON document).
+ */
+export const WORKOUT_METADATA_STORAGE_KEY =
+  "react-native-workouts/scheduled-metadata";
+
+/**
+ * In-memory storage, the default. Metadata is lost when the app restarts.
+ */
+export function createMemoryMetadataStorage(): WorkoutMetadataStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+interface MetadataEntry {
+  // Stored as exported, so it still passes `verifyWorkoutExport`.
+  export: WorkoutPlanExport;
+  // Latest date the workout was scheduled on.
+  date: DateComponents;
+  // Set for workouts scheduled by `scheduleProgram`.
+  programId?: string;
+}
+type MetadataEntries = Record<string, MetadataEntry>;
+
+let storage: WorkoutMetadataStorage = createMemoryMetadataStorage();
+let onError: ((error: unknown) => void) | undefined;
+let entries: Promise<MetadataEntries> | null = null;
+// Writes are chained so concurrent schedules don't overwrite each other's entries.
+let writes: Promise<unknown> = Promise.resolve();
+
+/**
+ * Sets where the library records the `plan.export()` of every scheduled workout, e.g.
+ * `configureWorkoutMetadataStorage(AsyncStorage)`. Call it once at startup, before scheduling.
+ */
+export function configureWorkoutMetadataStorage(
+  nextStorage: WorkoutMetadataStorage,
+  options: WorkoutMetadataStorageOptions = {},
+): void {
+  storage = nextStorage;
+  onError = options.onError;
+  entries = null;
+}
+
+function loadEntries(): Promise<MetadataEntries> {
+  entries ??= Promise.resolve(storage.getItem(WORKOUT_METADATA_STORAGE_KEY))
+    .then((json) => {
+      const parsed: unknown = json ? JSON.parse(json) : {};
+      return typeof parsed === "object" && parsed !== null
+        ? (parsed as MetadataEntries)
+        : {};
+    })
+    .catch((e: unknown) => {
+      onError?.(e);
+      return {};
+    });
+  return entries;
+}
+
+// Rejects if storage fails; `updateEntries` reports that to `onError` instead.
+function writeEntries(
+  mutate: (current: MetadataEntries) => MetadataEntries,
+): Promise<void> {
+  const write = writes.then(async () => {
+    const next = mutate({ ...(await loadEntries()) });
+    entries = Promise.resolve(next);
+    await storage.setItem(WORKOUT_METADATA_STORAGE_KEY, JSON.stringify(next));
+  });
+  writes = write.catch(() => {});
+  return write;
+}
+
+function updateEntries(
+  mutate: (current: MetadataEntries) => MetadataEntries,
+): Promise<void> {
+  return writeEntries(mutate).catch((e: unknown) => {
+    onError?.(e);
+  });
+}
+
+/**
+ * Records the export of a plan that was just scheduled on `date`. Called by the module for every
+ * successful `scheduleAndSync` / `schedule*Workout`.
+ */
+export function recordScheduledWorkout(
+  exported: WorkoutPlanExport,
+  date: DateComponents,
+): Promise<void> {
+  return updateEntries((current) => {
+    const previous = current[exported.id];
+    return {
+      ...current,
+      [exported.id]: {
+        ...previous,
+        export: exported,
+        date:
+          previous && compareDateComponents(previous.date, date) > 0
+            ? previous.date
+            : date,
+      },
+    };
+  });
+}
+
+/**
+ * Marks recorded workouts as belonging to a training program. IDs without a recorded entry are
+ * skipped: a workout the registry doesn't know can't be attributed later either.
+ *
+ * Unlike recording, this rejects when storage fails, since the program would lose track of the
+ * workouts.
+ */
+export function assignScheduledWorkoutsToProgram(
+  ids: string[],
+  programId: string,
+): Promise<void> {
+  return writeEntries((current) => {
+    const next = { ...current };
+    for (const id of ids) {
+      if (next[id]) next[id] = { ...next[id], programId };
+    }
+    return next;
+  });
+}
+
+/**
+ * Drops every recorded entry (after `removeAllScheduledWorkouts`).
+ */
+export function clearScheduledWorkoutMetadata(): Promise<void> {
+  return updateEntries(() => ({}));
+}
+
+/**
+ * The recorded export for a scheduled workout ID, if any.
+ */
+export async function getScheduledWorkoutMetadata(
+  id: string,
+): Promise<WorkoutPlanExport | undefined> {
+  return (await loadEntries())[id]?.export;
+}
+
+function describe({
+  export: exported,
+  programId,
+}: MetadataEntry): Pick<
+  ScheduledWorkout,
+  "kind" | "displayName" | "activityType" | "config" | "programId"
+> {
+  let config = exported.config;
+  try {
+    // Entries were written by this app, and older ones predate versioning.
+    config = migrateWorkoutExport(exported).config;
+  } catch {
+    // Keep the stored config; it is only informational here.
+  }
+  const { displayName, activityType } = (config ?? {}) as {
+    displayName?: unknown;
+    activityType?: unknown;
+  };
+  return {
+    kind: exported.kind,
+    ...(typeof displayName === "string" && { displayName }),
+    ...(typeof activityType === "string" && {
+      activityType: activityType as ActivityType,
+    }),
+    config,
+    ...(programId !== undefined && { programId }),
+  };
+}
+
+/**
+ * Adds the recorded `kind`, `displayName`, `activityType`, `config` and `programId` to native
+ * scheduled workouts, and drops registry entries whose workout is no longer scheduled and whose
+ * last date has passed (completed, removed in the Workout app, ...). Entries with a date still
+ * ahead are kept, so a list that comes back empty or incomplete can't wipe the registry.
+ */
+export async function joinScheduledWorkoutMetadata(
+  workouts: ScheduledWorkout[],
+  now: Date = new Date(),
+): Promise<ScheduledWorkout[]> {
+  const current = await loadEntries();
+  const ids = new Set(workouts.map((workout) => workout.id));
+  const isStale = (id: string, { date }: MetadataEntry) => {
+    const scheduledFor = date && dateFromComponents(date);
+    return !ids.has(id) && !(scheduledFor && scheduledFor >= now);
+  };
+  if (Object.entries(current).some(([id, entry]) => isStale(id, entry))) {
+    // Entries recorded since `current` was read belong to workouts scheduled meanwhile; keep them.
+    updateEntries((latest) =>
+      Object.fromEntries(
+        Object.entries(latest).filter(
+          ([id, entry]) => !(id in current) || !isStale(id, entry),
+        ),
+      ),
+    ).catch(() => {});
+  }
+  return workouts.map((workout) => {
+    const entry = current[workout.id];
+    return entry ? { ...workout, ...describe(entry) } : workout;
+  });
+}
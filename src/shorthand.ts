@@ -0,0 +1,635 @@
+import type {
+  ActivityType,
+  CustomWorkoutConfig,
+  DistanceUnit,
+  EnergyUnit,
+  IntervalBlock,
+  IntervalStep,
+  LocationType,
+  PaceZoneName,
+  SpeedUnit,
+  StepPurpose,
+  WorkoutAlert,
+  WorkoutGoal,
+  WorkoutStep,
+} from "./ReactNativeWorkouts.types";
+import { COGGAN_POWER_ZONES } from "./powerZones";
+import {
+  canonicalDistanceUnit,
+  canonicalEnergyUnit,
+  canonicalPaceUnit,
+  canonicalSpeedUnit,
+  canonicalTimeUnit,
+} from "./units";
+
+export interface WorkoutShorthandOptions {
+  activityType: ActivityType;
+  locationType?: LocationType;
+  displayName?: string;
+}
+
+export interface WorkoutShorthandError {
+  message: string;
+  /**
+   * Character offset (0-based) into the parsed text where the problem starts.
+   */
+  offset: number;
+  /**
+   * Number of characters the problem spans.
+   */
+  length: number;
+}
+
+export interface WorkoutShorthandResult {
+  /**
+   * The parsed workout, or `null` when `errors` is not empty.
+   */
+  config: CustomWorkoutConfig | null;
+  errors: WorkoutShorthandError[];
+}
+
+type Role = "warmup" | "cooldown" | StepPurpose;
+
+interface ParsedStep {
+  role?: Role;
+  goal?: WorkoutGoal;
+  alert?: WorkoutAlert;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const CLOCK = String.raw`(\d+:\d{2})`;
+
+const LABELS: Record<string, Role> = {
+  wu: "warmup",
+  warmup: "warmup",
+  "warm-up": "warmup",
+  cd: "cooldown",
+  cooldown: "cooldown",
+  "cool-down": "cooldown",
+  rec: "recovery",
+  recovery: "recovery",
+  rest: "recovery",
+  jog: "recovery",
+  easy: "recovery",
+  work: "work",
+  on: "work",
+};
+
+const GOAL_PATTERNS: {
+  pattern: RegExp;
+  toGoal: (match: RegExpMatchArray) => WorkoutGoal;
+}[] = [
+  {
+    pattern: /^open$/i,
+    toGoal: () => ({ type: "open" }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(?:'|min)$`, "i"),
+    toGoal: (m) => ({ type: "time", value: Number(m[1]), unit: "minutes" }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(?:"|s|sec)$`, "i"),
+    toGoal: (m) => ({ type: "time", value: Number(m[1]), unit: "seconds" }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(?:h|hr)$`, "i"),
+    toGoal: (m) => ({ type: "time", value: Number(m[1]), unit: "hours" }),
+  },
+  {
+    // Clock-style durations: `3:00` or `1:05:00`.
+    pattern: /^(?:(\d+):)?(\d+):(\d{2})$/,
+    toGoal: (m) => ({
+      type: "time",
+      value: Number(m[1] ?? 0) * 3600 + Number(m[2]) * 60 + Number(m[3]),
+      unit: "seconds",
+    }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(m|km|mi|yd|ft)$`, "i"),
+    toGoal: (m) => ({
+      type: "distance",
+      value: Number(m[1]),
+      unit: canonicalDistanceUnit(m[2].toLowerCase() as DistanceUnit),
+    }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(kcal|kj)$`, "i"),
+    toGoal: (m) => ({
+      type: "energy",
+      value: Number(m[1]),
+      unit: canonicalEnergyUnit(m[2].toLowerCase() as EnergyUnit),
+    }),
+  },
+];
+
+function range(low: number, high: number): { min: number; max: number } {
+  return low <= high ? { min: low, max: high } : { min: high, max: low };
+}
+
+function parseClock(value: string): number {
+  const [minutes, seconds] = value.split(":").map(Number);
+  return minutes + seconds / 60;
+}
+
+const PACE_ZONE_LETTERS: Record<PaceZoneName, string> = {
+  easy: "E",
+  marathon: "M",
+  threshold: "T",
+  interval: "I",
+  repetition: "R",
+};
+
+const ALERT_PATTERNS: {
+  pattern: RegExp;
+  toAlert: (match: RegExpMatchArray) => WorkoutAlert;
+}[] = [
+  {
+    pattern: /^z(\d+)$/i,
+    toAlert: (m) => ({ type: "heartRate", zone: Number(m[1]) }),
+  },
+  {
+    pattern: new RegExp(`^${CLOCK}(?:-${CLOCK})?/(km|mi)$`, "i"),
+    toAlert: (m) => ({
+      type: "pace",
+      ...range(parseClock(m[1]), parseClock(m[2] ?? m[1])),
+      unit: canonicalPaceUnit(
+        m[3].toLowerCase() === "mi" ? "min/mi" : "min/km",
+      ),
+    }),
+  },
+  {
+    // Daniels pace zones: `T`, `T±5s`, `T+-5s/mi`.
+    pattern: new RegExp(`^([EMTIR])(?:(?:±|\\+-)${NUMBER}s)?(?:/(km|mi))?$`),
+    toAlert: (m) => {
+      const zone = (Object.keys(PACE_ZONE_LETTERS) as PaceZoneName[]).find(
+        (name) => PACE_ZONE_LETTERS[name] === m[1],
+      )!;
+      return {
+        type: "pace",
+        zone,
+        ...(m[2] !== undefined && { offsetSeconds: Number(m[2]) }),
+        ...(m[3] && {
+          unit: canonicalPaceUnit(m[3] === "mi" ? "min/mi" : "min/km"),
+        }),
+      };
+    },
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(?:-${NUMBER})?bpm$`, "i"),
+    toAlert: (m) => ({
+      type: "heartRate",
+      ...range(Number(m[1]), Number(m[2] ?? m[1])),
+    }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(?:-${NUMBER})?w$`, "i"),
+    toAlert: (m) => ({
+      type: "power",
+      ...range(Number(m[1]), Number(m[2] ?? m[1])),
+    }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(?:-${NUMBER})?%ftp$`, "i"),
+    toAlert: (m) => {
+      const { min, max } = range(Number(m[1]), Number(m[2] ?? m[1]));
+      return { type: "power", minPercentFtp: min, maxPercentFtp: max };
+    },
+  },
+  {
+    pattern: new RegExp(
+      `^(${COGGAN_POWER_ZONES.map((zone) => zone.name).join("|")})$`,
+      "i",
+    ),
+    toAlert: (m) => ({
+      type: "power",
+      zone: COGGAN_POWER_ZONES.find(
+        (zone) => zone.name.toLowerCase() === m[1].toLowerCase(),
+      )!.name,
+    }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(?:-${NUMBER})?(?:rpm|spm)$`, "i"),
+    toAlert: (m) => ({
+      type: "cadence",
+      ...range(Number(m[1]), Number(m[2] ?? m[1])),
+    }),
+  },
+  {
+    pattern: new RegExp(`^${NUMBER}(?:-${NUMBER})?(km/h|kph|mph|m/s)$`, "i"),
+    toAlert: (m) => ({
+      type: "speed",
+      ...range(Number(m[1]), Number(m[2] ?? m[1])),
+      unit: canonicalSpeedUnit(m[3].toLowerCase() as SpeedUnit),
+    }),
+  },
+];
+
+class ShorthandParser {
+  readonly errors: WorkoutShorthandError[] = [];
+
+  constructor(private readonly text: string) {}
+
+  error(message: string, { start, end }: Range): void {
+    this.errors.push({
+      message,
+      offset: start,
+      length: Math.max(end - start, 1),
+    });
+  }
+
+  trim({ start, end }: Range): Range {
+    while (start < end && /\s/.test(this.text[start])) start++;
+    while (end > start && /\s/.test(this.text[end - 1])) end--;
+    return { start, end };
+  }
+
+  /**
+   * Splits a range on commas that are not nested in parentheses.
+   */
+  splitList({ start, end }: Range): Range[] {
+    const items: Range[] = [];
+    let depth = 0;
+    let itemStart = start;
+    let openedAt = -1;
+
+    for (let i = start; i < end; i++) {
+      const char = this.text[i];
+      if (char === "(") {
+        if (depth === 0) openedAt = i;
+        depth++;
+      } else if (char === ")") {
+        if (depth === 0) {
+          this.error("Unmatched ')'", { start: i, end: i + 1 });
+        } else {
+          depth--;
+        }
+      } else if (char === "," && depth === 0) {
+        items.push(this.trim({ start: itemStart, end: i }));
+        itemStart = i + 1;
+      }
+    }
+    if (depth > 0) {
+      this.error("Unclosed '('", { start: openedAt, end: openedAt + 1 });
+    }
+    items.push(this.trim({ start: itemStart, end }));
+    return items;
+  }
+
+  parseStep(segment: Range): ParsedStep | null {
+    if (segment.start === segment.end) {
+      this.error("Expected a step", segment);
+      return null;
+    }
+
+    const step: ParsedStep = {};
+    const source = this.text.slice(segment.start, segment.end);
+    const tokens = [...source.matchAll(/\S+/g)].map((match) => ({
+      value: match[0],
+      start: segment.start + (match.index ?? 0),
+      end: segment.start + (match.index ?? 0) + match[0].length,
+    }));
+    let ok = true;
+
+    for (let i = 0; i < tokens.length; i++) {
+      let token = tokens[i];
+      let isTarget = false;
+
+      if (token.value.startsWith("@")) {
+        isTarget = true;
+        // Allow `@ 4:00/km` as well as `@4:00/km`.
+        if (token.value === "@" && i + 1 < tokens.length) {
+          const next = tokens[++i];
+          token = { value: next.value, start: token.start, end: next.end };
+        } else {
+          token = { ...token, value: token.value.slice(1) };
+        }
+      }
+
+      const label = isTarget ? undefined : matchLabel(token.value);
+      if (label) {
+        if (step.role) {
+          this.error(`Step already labelled as ${step.role}`, token);
+          ok = false;
+        }
+        step.role = label;
+        continue;
+      }
+
+      const goal = isTarget ? undefined : matchGoal(token.value);
+      if (goal) {
+        if (step.goal) {
+          this.error("Step already has a goal", token);
+          ok = false;
+        }
+        step.goal = goal;
+        continue;
+      }
+
+      const alert = matchAlert(token.value);
+      if (alert) {
+        if (step.alert) {
+          this.error("Step already has a target", token);
+          ok = false;
+        }
+        step.alert = alert;
+        continue;
+      }
+
+      this.error(
+        isTarget
+          ? `Unrecognized target: ${token.value}`
+          : `Unrecognized token: ${token.value}`,
+        token,
+      );
+      ok = false;
+    }
+
+    return ok ? step : null;
+  }
+
+  parseGroup(inner: Range, iterations: number | undefined): IntervalBlock {
+    const steps: IntervalStep[] = [];
+    for (const item of this.splitList(inner)) {
+      const step = this.parseStep(item);
+      if (!step) continue;
+      if (step.role === "warmup" || step.role === "cooldown") {
+        this.error(`A ${step.role} cannot be part of an interval block`, item);
+        continue;
+      }
+      steps.push(toIntervalStep(step));
+    }
+    return iterations === undefined ? { steps } : { iterations, steps };
+  }
+
+  parse(options: WorkoutShorthandOptions): CustomWorkoutConfig | null {
+    const whole = this.trim({ start: 0, end: this.text.length });
+    if (whole.start === whole.end) {
+      this.error("Workout text is empty", { start: 0, end: 0 });
+      return null;
+    }
+
+    const segments = this.splitList(whole);
+    let warmup: WorkoutStep | undefined;
+    let cooldown: WorkoutStep | undefined;
+    const blocks: IntervalBlock[] = [];
+
+    segments.forEach((segment, index) => {
+      const source = this.text.slice(segment.start, segment.end);
+      const repeat = /^(\d+)\s*[x×]\s*/i.exec(source);
+
+      if (repeat || source.startsWith("(")) {
+        const iterations = repeat ? Number(repeat[1]) : undefined;
+        const bodyStart = segment.start + (repeat ? repeat[0].length : 0);
+        const body = { start: bodyStart, end: segment.end };
+
+        if (iterations !== undefined && iterations < 1) {
+          this.error("Repeat count must be >= 1", segment);
+          return;
+        }
+        if (this.text[body.start] === "(" && this.text[body.end - 1] === ")") {
+          blocks.push(
+            this.parseGroup(
+              { start: body.start + 1, end: body.end - 1 },
+              iterations,
+            ),
+          );
+        } else if (this.text[body.start] === "(") {
+          this.error("Expected ')' at the end of the interval block", segment);
+        } else {
+          blocks.push(this.parseGroup(body, iterations));
+        }
+        return;
+      }
+
+      const step = this.parseStep(segment);
+      if (!step) return;
+
+      if (step.role === "warmup") {
+        if (index !== 0) {
+          this.error("Warmup must be the first segment", segment);
+          return;
+        }
+        warmup = toWorkoutStep(step);
+      } else if (step.role === "cooldown") {
+        if (index !== segments.length - 1) {
+          this.error("Cooldown must be the last segment", segment);
+          return;
+        }
+        cooldown = toWorkoutStep(step);
+      } else {
+        blocks.push({ steps: [toIntervalStep(step)] });
+      }
+    });
+
+    if (this.errors.length > 0) return null;
+
+    if (blocks.length === 0) {
+      this.error("Workout needs at least one interval", whole);
+      return null;
+    }
+
+    return {
+      activityType: options.activityType,
+      ...(options.locationType && { locationType: options.locationType }),
+      ...(options.displayName !== undefined && {
+        displayName: options.displayName,
+      }),
+      ...(warmup && { warmup }),
+      blocks,
+      ...(cooldown && { cooldown }),
+    };
+  }
+}
+
+function matchLabel(token: string): Role | undefined {
+  const key = token.toLowerCase();
+  return Object.prototype.hasOwnProperty.call(LABELS, key)
+    ? LABELS[key]
+    : undefined;
+}
+
+function matchGoal(token: string): WorkoutGoal | undefined {
+  for (const { pattern, toGoal } of GOAL_PATTERNS) {
+    const match = token.match(pattern);
+    if (match) return toGoal(match);
+  }
+  return undefined;
+}
+
+function matchAlert(token: string): WorkoutAlert | undefined {
+  for (const { pattern, toAlert } of ALERT_PATTERNS) {
+    const match = token.match(pattern);
+    if (match) return toAlert(match);
+  }
+  return undefined;
+}
+
+function toWorkoutStep(step: ParsedStep): WorkoutStep {
+  return {
+    ...(step.goal && { goal: step.goal }),
+    ...(step.alert && { alert: step.alert }),
+  };
+}
+
+function toIntervalStep(step: ParsedStep): IntervalStep {
+  return {
+    purpose: step.role === "recovery" ? "recovery" : "work",
+    ...toWorkoutStep(step),
+  };
+}
+
+/**
+ * Parses coach-style interval shorthand into a `CustomWorkoutConfig`.
+ *
+ * Segments are comma separated:
+ * - goals: `10'`/`10min`, `90"`/`90s`, `1h`, `3:00`, `400m`, `5km`, `1mi`, `300kcal`, `open`
+ * - targets (after `@`): `4:00-4:30/km`, `7:00/mi`, `Z2`, `140-150bpm`, `200-250W`,
+ *   `88-94%FTP`, `threshold` (Coggan power zone), `T`/`T±5s/km` (Daniels pace zone E/M/T/I/R),
+ *   `85-95rpm`, `10-12km/h`
+ * - labels: `WU` (warmup, first segment), `CD` (cooldown, last segment), `rec` (recovery)
+ * - blocks: `4x(400m @ 4:00-4:30/km, 90s rec)`, `6x200m`, or `(...)` without a repeat count
+ *
+ * @example
+ * ```ts
+ * parseWorkoutShorthand("10' WU, 4x(400m @ 4:00-4:30/km, 90s rec), 5' CD", {
+ *   activityType: "running",
+ * });
+ * ```
+ */
+export function parseWorkoutShorthand(
+  text: string,
+  options: WorkoutShorthandOptions,
+): WorkoutShorthandResult {
+  const parser = new ShorthandParser(text);
+  const config = parser.parse(options);
+  return parser.errors.length > 0
+    ? { config: null, errors: parser.errors }
+    : { config, errors: [] };
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+function formatClock(minutes: number): string {
+  const totalSeconds = Math.round(minutes * 60);
+  const seconds = totalSeconds % 60;
+  return `${Math.floor(totalSeconds / 60)}:${String(seconds).padStart(2, "0")}`;
+}
+
+function formatRange(min: number, max: number, format = formatNumber): string {
+  return min === max ? format(min) : `${format(min)}-${format(max)}`;
+}
+
+function formatGoal(goal: WorkoutGoal): string {
+  switch (goal.type) {
+    case "open":
+      return "open";
+    case "time":
+      switch (canonicalTimeUnit(goal.unit)) {
+        case "minutes":
+          return `${formatNumber(goal.value)}'`;
+        case "hours":
+          return `${formatNumber(goal.value)}h`;
+        default:
+          return `${formatNumber(goal.value)}s`;
+      }
+    case "distance": {
+      const suffix: Record<string, string> = {
+        meters: "m",
+        kilometers: "km",
+        miles: "mi",
+        yards: "yd",
+        feet: "ft",
+      };
+      return `${formatNumber(goal.value)}${
+        suffix[canonicalDistanceUnit(goal.unit)]
+      }`;
+    }
+    case "energy":
+      return canonicalEnergyUnit(goal.unit) === "kilojoules"
+        ? `${formatNumber(goal.value)}kJ`
+        : `${formatNumber(goal.value)}kcal`;
+  }
+}
+
+function formatAlert(alert: WorkoutAlert): string {
+  if (alert.type === "heartRate" && "zone" in alert) {
+    return `@Z${alert.zone}`;
+  }
+  switch (alert.type) {
+    case "heartRate":
+      return `@${formatRange(alert.min, alert.max)}bpm`;
+    case "pace": {
+      const perUnit =
+        canonicalPaceUnit(alert.unit) === "minutesPerMile" ? "mi" : "km";
+      if ("zone" in alert) {
+        const offset =
+          alert.offsetSeconds !== undefined
+            ? `±${formatNumber(alert.offsetSeconds)}s`
+            : "";
+        const suffix = alert.unit || offset ? `/${perUnit}` : "";
+        return `@${PACE_ZONE_LETTERS[alert.zone]}${offset}${suffix}`;
+      }
+      return `@${formatRange(alert.min, alert.max, formatClock)}/${perUnit}`;
+    }
+    case "speed": {
+      const suffix: Record<string, string> = {
+        metersPerSecond: "m/s",
+        kilometersPerHour: "km/h",
+        milesPerHour: "mph",
+      };
+      return `@${formatRange(alert.min, alert.max)}${
+        suffix[canonicalSpeedUnit(alert.unit)]
+      }`;
+    }
+    case "cadence":
+      return `@${formatRange(alert.min, alert.max)}rpm`;
+    case "power":
+      if ("zone" in alert) return `@${alert.zone}`;
+      if ("minPercentFtp" in alert) {
+        return `@${formatRange(alert.minPercentFtp, alert.maxPercentFtp)}%FTP`;
+      }
+      return `@${formatRange(alert.min, alert.max)}W`;
+  }
+}
+
+function formatStep(step: WorkoutStep, label?: string): string {
+  const parts: string[] = [];
+  if (step.goal) parts.push(formatGoal(step.goal));
+  if (step.alert) parts.push(formatAlert(step.alert));
+  if (label) parts.push(label);
+  // A work step with neither goal nor target still needs a token.
+  return parts.length > 0 ? parts.join(" ") : "work";
+}
+
+function formatIntervalStep(step: IntervalStep): string {
+  return formatStep(step, step.purpose === "recovery" ? "rec" : undefined);
+}
+
+function formatBlock(block: IntervalBlock): string {
+  const steps = block.steps.map(formatIntervalStep);
+  if (block.iterations !== undefined) {
+    return `${block.iterations}x(${steps.join(", ")})`;
+  }
+  return steps.length === 1 ? steps[0] : `(${steps.join(", ")})`;
+}
+
+/**
+ * Formats a `CustomWorkoutConfig` as shorthand text accepted by `parseWorkoutShorthand`.
+ *
+ * Activity type, location and display name are not part of the text. Units are written in
+ * their canonical form, so aliases (e.g. `"min"` vs `"minutes"`) round-trip to the long name.
+ */
+export function formatWorkoutShorthand(config: CustomWorkoutConfig): string {
+  const segments: string[] = [];
+  if (config.warmup) segments.push(formatStep(config.warmup, "WU"));
+  segments.push(...config.blocks.map(formatBlock));
+  if (config.cooldown) segments.push(formatStep(config.cooldown, "CD"));
+  return segments.join(", ");
+}
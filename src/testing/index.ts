@@ -0,0 +1,431 @@
+// In-memory stand-in for the native module, for Jest/Node tests that can't load WorkoutKit.
+// Import from `react-native-workouts/testing`; it never touches `expo` or native code.
+
+import type {
+  ActivityType,
+  AuthorizationChangeEvent,
+  AuthorizationStatus,
+  CustomWorkoutConfig,
+  DateComponents,
+  LocationType,
+  PacerWorkoutConfig,
+  ScheduleResult,
+  ScheduledWorkout,
+  SingleGoalWorkoutConfig,
+  SwimBikeRunWorkoutConfig,
+  WorkoutPlan,
+  WorkoutPlanExport,
+  WorkoutPlanKind,
+  WorkoutValidationResult,
+} from "../ReactNativeWorkouts.types";
+import type ReactNativeWorkoutsModule from "../ReactNativeWorkoutsModule";
+import { isSameScheduledDate } from "../dates";
+import { type WorkoutsError, toWorkoutsError } from "../errors";
+import { stampWorkoutExport } from "../exportSchema";
+import { validateWorkoutConfig } from "../validation";
+
+type NativeModuleType = typeof ReactNativeWorkoutsModule;
+
+type ModuleMethodName =
+  | "getAuthorizationStatus"
+  | "requestAuthorization"
+  | "supportsGoal"
+  | "createCustomWorkout"
+  | "previewWorkout"
+  | "scheduleWorkout"
+  | "createSingleGoalWorkout"
+  | "previewSingleGoalWorkout"
+  | "scheduleSingleGoalWorkout"
+  | "createPacerWorkout"
+  | "previewPacerWorkout"
+  | "schedulePacerWorkout"
+  | "createCustomWorkoutPlan"
+  | "createSingleGoalWorkoutPlan"
+  | "createPacerWorkoutPlan"
+  | "createSwimBikeRunWorkoutPlan"
+  | "getScheduledWorkouts"
+  | "removeScheduledWorkout"
+  | "removeAllScheduledWorkouts"
+  | "getSupportedActivityTypes"
+  | "getSupportedGoalTypes"
+  | "getSupportedLocationTypes";
+
+/**
+ * Methods that can be made to fail with `failNext()`. `plan.*` targets the methods of the
+ * `WorkoutPlan` objects the mock returns.
+ */
+export type MockWorkoutsMethod =
+  | Exclude<
+      ModuleMethodName,
+      | "getSupportedActivityTypes"
+      | "getSupportedGoalTypes"
+      | "getSupportedLocationTypes"
+    >
+  | "plan.preview"
+  | "plan.scheduleAndSync";
+
+export interface MockWorkoutsCall {
+  method: MockWorkoutsMethod;
+  args: unknown[];
+}
+
+export interface MockWorkoutsModuleOptions {
+  /**
+   * Initial authorization status. Defaults to `"notDetermined"`.
+   */
+  authorizationStatus?: AuthorizationStatus;
+  /**
+   * Status `requestAuthorization()` moves to when the status is `"notDetermined"` (as if the
+   * user answered the prompt). Defaults to `"authorized"`.
+   */
+  authorizationResponse?: AuthorizationStatus;
+  /**
+   * Value of the `isAvailable` constant. Defaults to `true`.
+   */
+  isAvailable?: boolean;
+  /**
+   * Result of `supportsGoal()`. Defaults to `true` for every combination.
+   */
+  supportsGoal?: (
+    activityType: ActivityType,
+    locationType: LocationType,
+    goalType: string,
+  ) => boolean;
+}
+
+/**
+ * The native module surface, implemented in memory, plus controls for driving tests.
+ */
+export interface MockWorkoutsModule extends Pick<
+  NativeModuleType,
+  "isAvailable" | ModuleMethodName
+> {
+  addListener(
+    eventName: "onAuthorizationChange",
+    listener: (event: AuthorizationChangeEvent) => void,
+  ): { remove(): void };
+  removeListener(
+    eventName: "onAuthorizationChange",
+    listener: (event: AuthorizationChangeEvent) => void,
+  ): void;
+  removeAllListeners(eventName: "onAuthorizationChange"): void;
+  listenerCount(eventName: "onAuthorizationChange"): number;
+  emit(
+    eventName: "onAuthorizationChange",
+    event: AuthorizationChangeEvent,
+  ): void;
+
+  /**
+   * Changes the authorization status and emits `onAuthorizationChange` (when it changed), as
+   * if the user toggled access in Settings.
+   */
+  setAuthorizationStatus(status: AuthorizationStatus): void;
+  /**
+   * Makes the next call of `method` reject with `error` (default: an `ERR_MOCK_FAILURE` error).
+   * Calls queue up: `failNext("x"); failNext("x")` fails the next two calls.
+   */
+  failNext(method: MockWorkoutsMethod, error?: Error): void;
+  /**
+   * Every call made to the mock, in order.
+   */
+  readonly calls: readonly MockWorkoutsCall[];
+  /**
+   * Current contents of the in-memory scheduler.
+   */
+  readonly scheduledWorkouts: readonly ScheduledWorkout[];
+  /**
+   * Clears scheduled workouts, queued failures, calls and listeners, and restores the initial
+   * authorization status.
+   */
+  reset(): void;
+}
+
+const ACTIVITY_TYPES: ActivityType[] = [
+  "running",
+  "cycling",
+  "walking",
+  "hiking",
+  "swimming",
+  "rowing",
+  "elliptical",
+  "stairClimbing",
+  "highIntensityIntervalTraining",
+  "yoga",
+  "functionalStrengthTraining",
+  "traditionalStrengthTraining",
+  "dance",
+  "jumpRope",
+  "coreTraining",
+  "pilates",
+  "kickboxing",
+  "stairs",
+  "stepTraining",
+  "wheelchairRunPace",
+  "wheelchairWalkPace",
+];
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Builds the same `WorkoutsError` the module wrapper produces for a native `Exception(name:)`
+// (`ERR_NOT_FOUND` → `WorkoutsNotFoundError` with `code: "NotFound"`).
+function codedError(code: string, message: string): WorkoutsError {
+  return toWorkoutsError(Object.assign(new Error(message), { code }));
+}
+
+/**
+ * Creates an independent in-memory mock of the native module.
+ *
+ * IDs are deterministic (`00000000-0000-4000-8000-000000000001`, ...). Like `WorkoutScheduler`,
+ * scheduling while not authorized resolves but doesn't record anything.
+ *
+ * @example
+ * ```ts
+ * // jest.setup.ts
+ * jest.mock("react-native-workouts/build/ReactNativeWorkoutsModule", () => ({
+ *   __esModule: true,
+ *   default: require("react-native-workouts/testing").createMockWorkoutsModule({
+ *     authorizationStatus: "authorized",
+ *   }),
+ * }));
+ * ```
+ */
+export function createMockWorkoutsModule(
+  options: MockWorkoutsModuleOptions = {},
+): MockWorkoutsModule {
+  const initialStatus = options.authorizationStatus ?? "notDetermined";
+  let status = initialStatus;
+  let nextId = 0;
+  let scheduled: ScheduledWorkout[] = [];
+  let calls: MockWorkoutsCall[] = [];
+  let failures = new Map<MockWorkoutsMethod, Error[]>();
+  let listeners: ((event: AuthorizationChangeEvent) => void)[] = [];
+
+  const createId = () => {
+    nextId++;
+    return `00000000-0000-4000-8000-${String(nextId).padStart(12, "0")}`;
+  };
+
+  const emit = (
+    _eventName: "onAuthorizationChange",
+    event: AuthorizationChangeEvent,
+  ) => {
+    for (const listener of [...listeners]) {
+      listener(event);
+    }
+  };
+
+  const setStatus = (next: AuthorizationStatus) => {
+    if (next === status) return;
+    status = next;
+    emit("onAuthorizationChange", { status });
+  };
+
+  // Records the call, then throws a queued failure if there is one.
+  const enter = (method: MockWorkoutsMethod, args: unknown[]) => {
+    calls.push({ method, args });
+    const error = failures.get(method)?.shift();
+    if (error) throw error;
+  };
+
+  const assertValid = (kind: WorkoutPlanKind, config: unknown) => {
+    const { valid, issues } = validateWorkoutConfig(kind, config);
+    if (!valid) {
+      const [issue] = issues;
+      throw codedError(
+        "ERR_INVALID_CONFIG",
+        issue.path ? `${issue.path}: ${issue.message}` : issue.message,
+      );
+    }
+  };
+
+  const schedule = (id: string, date: DateComponents): ScheduleResult => {
+    if (status === "authorized") {
+      scheduled.push({ id, date: { ...date } });
+    }
+    return { success: true, id };
+  };
+
+  const createPlan = (kind: WorkoutPlanKind, config: unknown): WorkoutPlan => {
+    const id = createId();
+    const plan = {
+      id,
+      kind,
+      async preview() {
+        enter("plan.preview", []);
+        return true;
+      },
+      async scheduleAndSync(date: DateComponents) {
+        enter("plan.scheduleAndSync", [date]);
+        return schedule(id, date);
+      },
+      export(): WorkoutPlanExport {
+        return stampWorkoutExport({ id, kind, config });
+      },
+      release() {},
+    };
+    // Only the members above are used by this package; the rest of `SharedObject` is native.
+    return plan as unknown as WorkoutPlan;
+  };
+
+  const validate =
+    (kind: WorkoutPlanKind, method: MockWorkoutsMethod) =>
+    async (config: {
+      displayName?: string;
+    }): Promise<WorkoutValidationResult> => {
+      enter(method, [config]);
+      assertValid(kind, config);
+      return { valid: true, displayName: config.displayName ?? "" };
+    };
+
+  const preview =
+    (kind: WorkoutPlanKind, method: MockWorkoutsMethod) =>
+    async (config: unknown): Promise<boolean> => {
+      enter(method, [config]);
+      assertValid(kind, config);
+      return true;
+    };
+
+  const scheduleConfig =
+    (kind: WorkoutPlanKind, method: MockWorkoutsMethod) =>
+    async (config: unknown, date: DateComponents): Promise<ScheduleResult> => {
+      enter(method, [config, date]);
+      assertValid(kind, config);
+      return schedule(createId(), date);
+    };
+
+  const factory =
+    <TConfig>(kind: WorkoutPlanKind, method: MockWorkoutsMethod) =>
+    async (config: TConfig): Promise<WorkoutPlan> => {
+      enter(method, [config]);
+      assertValid(kind, config);
+      return createPlan(kind, config);
+    };
+
+  return {
+    isAvailable: options.isAvailable ?? true,
+
+    async getAuthorizationStatus() {
+      enter("getAuthorizationStatus", []);
+      return status;
+    },
+    async requestAuthorization() {
+      enter("requestAuthorization", []);
+      if (status === "notDetermined") {
+        setStatus(options.authorizationResponse ?? "authorized");
+      }
+      return status;
+    },
+    async supportsGoal(activityType, locationType, goalType) {
+      enter("supportsGoal", [activityType, locationType, goalType]);
+      return (
+        options.supportsGoal?.(activityType, locationType, goalType) ?? true
+      );
+    },
+
+    createCustomWorkout: validate("custom", "createCustomWorkout"),
+    previewWorkout: preview("custom", "previewWorkout"),
+    scheduleWorkout: scheduleConfig("custom", "scheduleWorkout"),
+    createSingleGoalWorkout: validate("singleGoal", "createSingleGoalWorkout"),
+    previewSingleGoalWorkout: preview("singleGoal", "previewSingleGoalWorkout"),
+    scheduleSingleGoalWorkout: scheduleConfig(
+      "singleGoal",
+      "scheduleSingleGoalWorkout",
+    ),
+    createPacerWorkout: validate("pacer", "createPacerWorkout"),
+    previewPacerWorkout: preview("pacer", "previewPacerWorkout"),
+    schedulePacerWorkout: scheduleConfig("pacer", "schedulePacerWorkout"),
+
+    createCustomWorkoutPlan: factory<CustomWorkoutConfig>(
+      "custom",
+      "createCustomWorkoutPlan",
+    ),
+    createSingleGoalWorkoutPlan: factory<SingleGoalWorkoutConfig>(
+      "singleGoal",
+      "createSingleGoalWorkoutPlan",
+    ),
+    createPacerWorkoutPlan: factory<PacerWorkoutConfig>(
+      "pacer",
+      "createPacerWorkoutPlan",
+    ),
+    createSwimBikeRunWorkoutPlan: factory<SwimBikeRunWorkoutConfig>(
+      "swimBikeRun",
+      "createSwimBikeRunWorkoutPlan",
+    ),
+
+    async getScheduledWorkouts() {
+      enter("getScheduledWorkouts", []);
+      return scheduled.map((workout) => ({
+        id: workout.id,
+        date: { ...workout.date },
+      }));
+    },
+    async removeScheduledWorkout(id, date) {
+      enter("removeScheduledWorkout", date === undefined ? [id] : [id, date]);
+      if (!UUID_PATTERN.test(id)) {
+        throw codedError("ERR_INVALID_ID", "Invalid workout ID format");
+      }
+      const index = scheduled.findIndex(
+        (workout) =>
+          workout.id === id &&
+          (date === undefined || isSameScheduledDate(workout.date, date)),
+      );
+      if (index === -1) {
+        throw codedError("ERR_NOT_FOUND", "Workout not found");
+      }
+      scheduled.splice(index, 1);
+      return true;
+    },
+    async removeAllScheduledWorkouts() {
+      enter("removeAllScheduledWorkouts", []);
+      scheduled = [];
+      return true;
+    },
+
+    getSupportedActivityTypes: () => [...ACTIVITY_TYPES],
+    getSupportedGoalTypes: () => ["open", "distance", "time", "energy"],
+    getSupportedLocationTypes: () => ["indoor", "outdoor"],
+
+    addListener(_eventName, listener) {
+      listeners.push(listener);
+      return {
+        remove: () => {
+          listeners = listeners.filter((candidate) => candidate !== listener);
+        },
+      };
+    },
+    removeListener(_eventName, listener) {
+      listeners = listeners.filter((candidate) => candidate !== listener);
+    },
+    removeAllListeners() {
+      listeners = [];
+    },
+    listenerCount() {
+      return listeners.length;
+    },
+    emit,
+
+    setAuthorizationStatus: setStatus,
+    failNext(method, error) {
+      const queue = failures.get(method) ?? [];
+      queue.push(
+        error ?? codedError("ERR_MOCK_FAILURE", `Mock failure in ${method}`),
+      );
+      failures.set(method, queue);
+    },
+    get calls() {
+      return calls;
+    },
+    get scheduledWorkouts() {
+      return scheduled;
+    },
+    reset() {
+      status = initialStatus;
+      nextId = 0;
+      scheduled = [];
+      calls = [];
+      failures = new Map();
+      listeners = [];
+    },
+  };
+}
@@ -0,0 +1,280 @@
+import type {
+  CustomWorkoutConfig,
+  PaceUnit,
+  StepPurpose,
+  WorkoutAlert,
+  WorkoutGoal,
+  WorkoutStep,
+} from "./ReactNativeWorkouts.types";
+import {
+  toMeters,
+  toMetersPerSecond,
+  toSeconds,
+  toSecondsPerMeter,
+} from "./units";
+
+export type WorkoutTimelinePhase = "warmup" | "interval" | "cooldown";
+
+export interface WorkoutTimelineStep {
+  /**
+   * Position of this step in the flattened timeline.
+   */
+  index: number;
+  phase: WorkoutTimelinePhase;
+  /**
+   * Purpose of interval steps. `null` for warmup/cooldown.
+   */
+  purpose: StepPurpose | null;
+  /**
+   * Index into `config.blocks`. `null` for warmup/cooldown.
+   */
+  blockIndex: number | null;
+  /**
+   * 0-based repetition of the block this step belongs to. `null` for warmup/cooldown.
+   */
+  iterationIndex: number | null;
+  /**
+   * Index into `block.steps`. `null` for warmup/cooldown.
+   */
+  stepIndex: number | null;
+  goal?: WorkoutGoal;
+  alert?: WorkoutAlert;
+  /**
+   * Estimated duration of this step in seconds, or `null` when it can't be derived
+   * (open/energy goals, or distance goals without a known pace).
+   */
+  durationSeconds: number | null;
+  /**
+   * Estimated distance of this step in meters, or `null` when it can't be derived.
+   */
+  distanceMeters: number | null;
+  /**
+   * Seconds from the start of the workout until this step starts. `null` once an earlier step
+   * has an unknown duration.
+   */
+  startSeconds: number | null;
+  /**
+   * Meters from the start of the workout until this step starts. `null` once an earlier step
+   * has an unknown distance.
+   */
+  startMeters: number | null;
+}
+
+export interface WorkoutEstimateOptions {
+  /**
+   * Pace used to convert between time and distance for steps that don't carry their own
+   * pace/speed alert. Without it, distance goals have no duration estimate (and vice versa).
+   */
+  assumedPace?: { value: number; unit?: PaceUnit };
+}
+
+export interface WorkoutSummaryEstimate {
+  /**
+   * Sum of all step durations that could be derived, in seconds.
+   */
+  totalSeconds: number;
+  /**
+   * Sum of all step distances that could be derived, in meters.
+   */
+  totalMeters: number;
+  /**
+   * Time spent in interval steps with purpose `"work"`.
+   */
+  workSeconds: number;
+  /**
+   * Time spent in interval steps with purpose `"recovery"`.
+   */
+  recoverySeconds: number;
+  /**
+   * `workSeconds / recoverySeconds`, or `null` without recovery time.
+   */
+  workToRecoveryRatio: number | null;
+  /**
+   * `true` when at least one step has an open goal (or no goal), so the workout has no upper bound.
+   */
+  isUnbounded: boolean;
+  /**
+   * `true` when every step is time-based, i.e. `totalSeconds` is not an estimate.
+   */
+  isTimeExact: boolean;
+  /**
+   * Number of steps whose duration could not be derived (open, energy, or distance without pace).
+   */
+  unestimatedSteps: number;
+}
+
+// Seconds per meter implied by a step's own pace/speed alert (midpoint of the range).
+function alertSecondsPerMeter(alert?: WorkoutAlert): number | null {
+  if (!alert) return null;
+  if (alert.type === "pace") {
+    if ("zone" in alert) return null;
+    return toSecondsPerMeter((alert.min + alert.max) / 2, alert.unit);
+  }
+  if (alert.type === "speed") {
+    const metersPerSecond = toMetersPerSecond(
+      (alert.min + alert.max) / 2,
+      alert.unit,
+    );
+    return metersPerSecond > 0 ? 1 / metersPerSecond : null;
+  }
+  return null;
+}
+
+function measureStep(
+  step: WorkoutStep,
+  assumedSecondsPerMeter: number | null,
+): { durationSeconds: number | null; distanceMeters: number | null } {
+  const goal = step.goal;
+  const secondsPerMeter =
+    alertSecondsPerMeter(step.alert) ?? assumedSecondsPerMeter;
+
+  if (goal?.type === "time") {
+    const seconds = toSeconds(goal.value, goal.unit);
+    return {
+      durationSeconds: seconds,
+      distanceMeters: secondsPerMeter ? seconds / secondsPerMeter : null,
+    };
+  }
+  if (goal?.type === "distance") {
+    const meters = toMeters(goal.value, goal.unit);
+    return {
+      durationSeconds: secondsPerMeter ? meters * secondsPerMeter : null,
+      distanceMeters: meters,
+    };
+  }
+  return { durationSeconds: null, distanceMeters: null };
+}
+
+/**
+ * Expands `IntervalBlock.iterations` into the ordered list of steps the Watch will run,
+ * including the cumulative start offset of each step.
+ */
+export function flattenWorkout(
+  config: CustomWorkoutConfig,
+  options: WorkoutEstimateOptions = {},
+): WorkoutTimelineStep[] {
+  const assumedSecondsPerMeter = options.assumedPace
+    ? toSecondsPerMeter(options.assumedPace.value, options.assumedPace.unit)
+    : null;
+
+  const timeline: WorkoutTimelineStep[] = [];
+  let startSeconds: number | null = 0;
+  let startMeters: number | null = 0;
+
+  const push = (
+    step: WorkoutStep,
+    position: Pick<
+      WorkoutTimelineStep,
+      "phase" | "purpose" | "blockIndex" | "iterationIndex" | "stepIndex"
+    >,
+  ) => {
+    const { durationSeconds, distanceMeters } = measureStep(
+      step,
+      assumedSecondsPerMeter,
+    );
+    timeline.push({
+      index: timeline.length,
+      ...position,
+      ...(step.goal && { goal: step.goal }),
+      ...(step.alert && { alert: step.alert }),
+      durationSeconds,
+      distanceMeters,
+      startSeconds,
+      startMeters,
+    });
+    startSeconds =
+      startSeconds === null || durationSeconds === null
+        ? null
+        : startSeconds + durationSeconds;
+    startMeters =
+      startMeters === null || distanceMeters === null
+        ? null
+        : startMeters + distanceMeters;
+  };
+
+  const unassigned = {
+    purpose: null,
+    blockIndex: null,
+    iterationIndex: null,
+    stepIndex: null,
+  };
+
+  if (config.warmup) {
+    push(config.warmup, { phase: "warmup", ...unassigned });
+  }
+
+  config.blocks.forEach((block, blockIndex) => {
+    const iterations = block.iterations ?? 1;
+    for (
+      let iterationIndex = 0;
+      iterationIndex < iterations;
+      iterationIndex++
+    ) {
+      block.steps.forEach((step, stepIndex) => {
+        push(step, {
+          phase: "interval",
+          purpose: step.purpose,
+          blockIndex,
+          iterationIndex,
+          stepIndex,
+        });
+      });
+    }
+  });
+
+  if (config.cooldown) {
+    push(config.cooldown, { phase: "cooldown", ...unassigned });
+  }
+
+  return timeline;
+}
+
+/**
+ * Estimates total time, distance and work/recovery ratio of a custom workout.
+ *
+ * Time goals are exact. Distance goals are converted with the step's own pace/speed alert,
+ * falling back to `assumedPace`. Open goals make the workout unbounded.
+ */
+export function estimateWorkoutSummary(
+  config: CustomWorkoutConfig,
+  options: WorkoutEstimateOptions = {},
+): WorkoutSummaryEstimate {
+  const summary: WorkoutSummaryEstimate = {
+    totalSeconds: 0,
+    totalMeters: 0,
+    workSeconds: 0,
+    recoverySeconds: 0,
+    workToRecoveryRatio: null,
+    isUnbounded: false,
+    isTimeExact: true,
+    unestimatedSteps: 0,
+  };
+
+  for (const step of flattenWorkout(config, options)) {
+    if (!step.goal || step.goal.type === "open") {
+      summary.isUnbounded = true;
+    }
+    if (step.goal?.type !== "time") {
+      summary.isTimeExact = false;
+    }
+    if (step.distanceMeters !== null) {
+      summary.totalMeters += step.distanceMeters;
+    }
+    if (step.durationSeconds === null) {
+      summary.unestimatedSteps++;
+      continue;
+    }
+    summary.totalSeconds += step.durationSeconds;
+    if (step.purpose === "work") {
+      summary.workSeconds += step.durationSeconds;
+    } else if (step.purpose === "recovery") {
+      summary.recoverySeconds += step.durationSeconds;
+    }
+  }
+
+  if (summary.recoverySeconds > 0) {
+    summary.workToRecoveryRatio = summary.workSeconds / summary.recoverySeconds;
+  }
+
+  return summary;
+}
@@ -0,0 +1,287 @@
+import type {
+  ActivityType,
+  AthleteProfile,
+  CustomWorkoutConfig,
+  IntervalBlock,
+  IntervalStep,
+  LocationType,
+  WorkoutAlert,
+  WorkoutFileWarning,
+  WorkoutGoal,
+  WorkoutStep,
+} from "./ReactNativeWorkouts.types";
+import { resolvePercentTarget, type ThresholdMetric } from "./athlete";
+
+export interface TrainingPeaksImportOptions {
+  /**
+   * Structured workout JSON does not carry the sport, so the caller provides it.
+   */
+  activityType: ActivityType;
+  /**
+   * Thresholds the percentage targets are relative to.
+   */
+  athlete: AthleteProfile;
+  locationType?: LocationType;
+  displayName?: string;
+}
+
+export interface TrainingPeaksImportResult {
+  config: CustomWorkoutConfig;
+  warnings: WorkoutFileWarning[];
+}
+
+// Half-width, in percentage points, of the range built around single-value targets.
+const SINGLE_TARGET_TOLERANCE = 3;
+
+const INTENSITY_METRICS: Record<string, ThresholdMetric> = {
+  percentofftp: "ftp",
+  percentofthresholdhr: "thresholdHeartRate",
+  percentofmaxhr: "maxHeartRate",
+  percentofthresholdpace: "thresholdPace",
+};
+
+const SECONDS_PER_LENGTH_UNIT: Record<string, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3600,
+};
+
+const METERS_PER_LENGTH_UNIT: Record<string, number> = {
+  meter: 1,
+  kilometer: 1000,
+  mile: 1609.344,
+};
+
+type Json = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// TrainingPeaks exports use camelCase, some third-party tools PascalCase. Lowercase every key.
+function lowerKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(lowerKeys);
+  if (!isRecord(value)) return value;
+  const result: Json = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key.toLowerCase()] = lowerKeys(item);
+  }
+  return result;
+}
+
+function asList(value: unknown): Json[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function asNumber(value: unknown): number | undefined {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+function asLowerString(value: unknown): string {
+  return typeof value === "string" ? value.toLowerCase() : "";
+}
+
+// Keys come from the document, so names like "constructor" must not hit `Object.prototype`.
+function lookup<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key)
+    ? table[key]
+    : undefined;
+}
+
+/**
+ * Converts a TrainingPeaks structured workout (the `structure` JSON attached to planned workouts)
+ * into a `CustomWorkoutConfig`.
+ *
+ * - `step` items become work steps (`rest` intensity becomes recovery). A leading `warmUp` step
+ *   becomes `warmup` and a trailing `coolDown` step becomes `cooldown`.
+ * - `repetition` items become an `IntervalBlock` with `iterations`.
+ * - Percent-of-threshold targets (`primaryIntensityMetric`) are resolved against `athlete` into
+ *   absolute power, heart rate or pace ranges.
+ *
+ * Throws when the input has no `structure` list. Ramps, extra targets, nested repetitions and
+ * targets whose threshold is missing from the profile are reported in `warnings`.
+ */
+export function importTrainingPeaks(
+  json: string | object,
+  options: TrainingPeaksImportOptions,
+): TrainingPeaksImportResult {
+  const document = lowerKeys(
+    typeof json === "string" ? JSON.parse(json) : json,
+  );
+  if (!isRecord(document) || !Array.isArray(document.structure)) {
+    throw new Error(
+      "Not a TrainingPeaks structured workout: missing `structure` list",
+    );
+  }
+
+  const warnings: WorkoutFileWarning[] = [];
+
+  const metricName = asLowerString(document.primaryintensitymetric);
+  const metric: ThresholdMetric | null = metricName
+    ? (lookup(INTENSITY_METRICS, metricName) ?? null)
+    : "ftp";
+  if (!metric) {
+    warnings.push({
+      path: "primaryIntensityMetric",
+      message: `Intensity metric "${document.primaryintensitymetric}" is not supported; targets were dropped`,
+    });
+  }
+  let reportedMissingThreshold = false;
+
+  const toGoal = (step: Json, path: string): WorkoutGoal => {
+    const length = isRecord(step.length) ? step.length : {};
+    const value = asNumber(length.value);
+    const unit = asLowerString(length.unit);
+    if (step.openduration === true || value === undefined || value <= 0) {
+      return { type: "open" };
+    }
+    const secondsPerUnit = lookup(SECONDS_PER_LENGTH_UNIT, unit);
+    if (secondsPerUnit !== undefined) {
+      return { type: "time", value: value * secondsPerUnit, unit: "seconds" };
+    }
+    const metersPerUnit = lookup(METERS_PER_LENGTH_UNIT, unit);
+    if (metersPerUnit !== undefined) {
+      return { type: "distance", value: value * metersPerUnit, unit: "meters" };
+    }
+    warnings.push({
+      path: `${path}.length`,
+      message: `Length unit "${length.unit}" is not supported; step imported as open`,
+    });
+    return { type: "open" };
+  };
+
+  const toAlert = (step: Json, path: string): WorkoutAlert | undefined => {
+    const targets = asList(step.targets);
+    if (!metric || targets.length === 0) return undefined;
+    if (targets.length > 1) {
+      warnings.push({
+        path: `${path}.targets`,
+        message: "Only the first target is supported; the others were dropped",
+      });
+    }
+
+    const target = targets[0];
+    const single = asNumber(target.value);
+    let low = asNumber(target.minvalue) ?? single;
+    let high = asNumber(target.maxvalue) ?? single;
+    if (low === undefined || high === undefined) return undefined;
+    if (low === high) {
+      low -= SINGLE_TARGET_TOLERANCE;
+      high += SINGLE_TARGET_TOLERANCE;
+    }
+
+    const alert = resolvePercentTarget(metric, low, high, options.athlete);
+    if (!alert && !reportedMissingThreshold) {
+      reportedMissingThreshold = true;
+      warnings.push({
+        path: "primaryIntensityMetric",
+        message: `Athlete profile has no \`${metric}\`; targets were dropped`,
+      });
+    }
+    return alert ?? undefined;
+  };
+
+  const toStep = (step: Json, path: string): WorkoutStep => {
+    const alert = toAlert(step, path);
+    return { goal: toGoal(step, path), ...(alert && { alert }) };
+  };
+
+  const toIntervalStep = (step: Json, path: string): IntervalStep => ({
+    purpose:
+      asLowerString(step.intensityclass) === "rest" ? "recovery" : "work",
+    ...toStep(step, path),
+  });
+
+  const items = asList(document.structure);
+  const blocks: IntervalBlock[] = [];
+  let pending: IntervalStep[] = [];
+  let warmup: WorkoutStep | undefined;
+  let cooldown: WorkoutStep | undefined;
+
+  const flush = () => {
+    if (pending.length > 0) {
+      blocks.push({ steps: pending });
+      pending = [];
+    }
+  };
+
+  items.forEach((item, index) => {
+    const path = `structure[${index}]`;
+    const type = asLowerString(item.type);
+    const steps = asList(item.steps);
+
+    if (type === "repetition") {
+      flush();
+      const iterations = Math.max(
+        1,
+        Math.round(
+          asNumber(isRecord(item.length) ? item.length.value : undefined) ?? 1,
+        ),
+      );
+      const blockSteps: IntervalStep[] = [];
+      steps.forEach((step, stepIndex) => {
+        const stepPath = `${path}.steps[${stepIndex}]`;
+        if (asLowerString(step.type) === "repetition") {
+          warnings.push({
+            path: stepPath,
+            message: "Nested repetitions are not supported and were dropped",
+          });
+          return;
+        }
+        blockSteps.push(toIntervalStep(step, stepPath));
+      });
+      if (blockSteps.length > 0) {
+        blocks.push({
+          ...(iterations > 1 && { iterations }),
+          steps: blockSteps,
+        });
+      }
+      return;
+    }
+
+    if (type === "rampup" || type === "rampdown") {
+      warnings.push({
+        path,
+        message: `Ramp (${item.type}) approximated by a constant target range`,
+      });
+    } else if (type !== "step") {
+      warnings.push({
+        path,
+        message: `Unknown structure item "${item.type}" was dropped`,
+      });
+      return;
+    }
+
+    steps.forEach((step, stepIndex) => {
+      const stepPath = `${path}.steps[${stepIndex}]`;
+      const intensity = asLowerString(step.intensityclass);
+      const isFirst = index === 0 && stepIndex === 0;
+      const isLast =
+        index === items.length - 1 && stepIndex === steps.length - 1;
+
+      if (isFirst && intensity === "warmup") {
+        warmup = toStep(step, stepPath);
+      } else if (isLast && intensity === "cooldown") {
+        cooldown = toStep(step, stepPath);
+      } else {
+        pending.push(toIntervalStep(step, stepPath));
+      }
+    });
+  });
+  flush();
+
+  return {
+    config: {
+      activityType: options.activityType,
+      ...(options.locationType && { locationType: options.locationType }),
+      ...(options.displayName && { displayName: options.displayName }),
+      ...(warmup && { warmup }),
+      blocks,
+      ...(cooldown && { cooldown }),
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,349 @@
+import type {
+  DateComponents,
+  ScheduledWorkout,
+  WorkoutPlan,
+  WorkoutPlanDefinition,
+} from "./ReactNativeWorkouts.types";
+import ReactNativeWorkouts from "./ReactNativeWorkoutsModule";
+import { scheduleMany } from "./batchSchedule";
+import {
+  dateFromComponents,
+  dateToComponents,
+  isSameScheduledDate,
+} from "./dates";
+import { WorkoutsConfigError } from "./errors";
+import { createWorkoutPlan } from "./planExport";
+import { assignScheduledWorkoutsToProgram } from "./scheduledMetadata";
+import { validateWorkoutConfig } from "./validation";
+
+export type TrainingProgramWorkout = WorkoutPlanDefinition;
+
+export interface TrainingProgramSlot {
+  /**
+   * Day of the week, counted from the program's `start` date: 0 is the weekday `start` falls on,
+   * 6 the day before the next week begins.
+   */
+  day: number;
+  /**
+   * Defaults to the hour of `start` (or 0).
+   */
+  hour?: number;
+  /**
+   * Defaults to the minute of `start` (or 0).
+   */
+  minute?: number;
+  workout: TrainingProgramWorkout;
+}
+
+export interface TrainingProgramWeek {
+  slots: TrainingProgramSlot[];
+}
+
+export interface TrainingProgram {
+  id: string;
+  name?: string;
+  /**
+   * First day of week 1. `year`, `month` and `day` are required.
+   */
+  start: DateComponents;
+  weeks: TrainingProgramWeek[];
+}
+
+/**
+ * One slot of a program placed on its calendar date.
+ */
+export interface TrainingProgramOccurrence {
+  /**
+   * 0-based week index.
+   */
+  week: number;
+  /**
+   * Index of the slot in `weeks[week].slots`.
+   */
+  slot: number;
+  date: DateComponents;
+  workout: TrainingProgramWorkout;
+}
+
+/**
+ * - `past`: the date has passed.
+ * - `scheduled`: on the Watch (scheduled by this program, see `getTrainingProgramProgress`).
+ * - `pending`: upcoming but not scheduled yet (outside the rolling window, or removed).
+ */
+export type TrainingProgramOccurrenceStatus = "past" | "scheduled" | "pending";
+
+export interface TrainingProgramProgress {
+  occurrences: (TrainingProgramOccurrence & {
+    status: TrainingProgramOccurrenceStatus;
+    /**
+     * ID of the matching scheduled workout, when `status` is `"scheduled"`.
+     */
+    scheduledId?: string;
+  })[];
+  total: number;
+  past: number;
+  scheduled: number;
+  pending: number;
+  /**
+   * 0-based index of the week containing `now`, or `null` before the start / after the end.
+   */
+  currentWeek: number | null;
+}
+
+export interface ScheduleProgramOptions {
+  /**
+   * How many days ahead of `now` to schedule. Defaults to `DEFAULT_PROGRAM_WINDOW_DAYS`.
+   */
+  windowDays?: number;
+  /**
+   * Defaults to the current time.
+   */
+  now?: Date;
+}
+
+export interface ScheduleProgramResult {
+  /**
+   * Occurrences scheduled by this call.
+   */
+  scheduled: TrainingProgramOccurrence[];
+  /**
+   * Occurrences in the window that were already scheduled (skipped).
+   */
+  alreadyScheduled: TrainingProgramOccurrence[];
+}
+
+/**
+ * Default rolling window: programs are scheduled two weeks ahead, not all at once.
+ */
+export const DEFAULT_PROGRAM_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function invalidProgram(path: string, message: string): WorkoutsConfigError {
+  return new WorkoutsConfigError(
+    "InvalidConfig",
+    `Invalid training program: ${path ? `${path}: ` : ""}${message}`,
+  );
+}
+
+function programStart(program: TrainingProgram): Date {
+  const start = dateFromComponents(program.start);
+  if (!start) {
+    throw invalidProgram(
+      "start",
+      "must be a valid date with a year, month and day",
+    );
+  }
+  return start;
+}
+
+/**
+ * Places every slot of `program` on its calendar date, in chronological order.
+ *
+ * Throws a `WorkoutsConfigError` if the program's dates or slot days are invalid.
+ */
+export function expandTrainingProgram(
+  program: TrainingProgram,
+): TrainingProgramOccurrence[] {
+  const start = programStart(program);
+  const occurrences: TrainingProgramOccurrence[] = [];
+
+  program.weeks.forEach((week, weekIndex) => {
+    week.slots.forEach((slot, slotIndex) => {
+      if (!Number.isInteger(slot.day) || slot.day < 0 || slot.day > 6) {
+        throw invalidProgram(
+          `weeks[${weekIndex}].slots[${slotIndex}].day`,
+          `must be an integer from 0 to 6, got ${slot.day}`,
+        );
+      }
+      const date = new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() + weekIndex * 7 + slot.day,
+        slot.hour ?? start.getHours(),
+        slot.minute ?? start.getMinutes(),
+      );
+      occurrences.push({
+        week: weekIndex,
+        slot: slotIndex,
+        date: dateToComponents(date),
+        workout: slot.workout,
+      });
+    });
+  });
+
+  return occurrences.sort(
+    (a, b) =>
+      (dateFromComponents(a.date)?.getTime() ?? 0) -
+      (dateFromComponents(b.date)?.getTime() ?? 0),
+  );
+}
+
+// Validates every workout up front, so a bad slot in week 12 fails before anything is scheduled.
+function validateProgramWorkouts(program: TrainingProgram): void {
+  program.weeks.forEach((week, weekIndex) => {
+    week.slots.forEach((slot, slotIndex) => {
+      const { issues } = validateWorkoutConfig(
+        slot.workout.kind,
+        slot.workout.config,
+      );
+      if (issues.length > 0) {
+        const base = `weeks[${weekIndex}].slots[${slotIndex}].workout.config`;
+        throw invalidProgram(
+          issues[0].path ? `${base}.${issues[0].path}` : base,
+          issues[0].message,
+        );
+      }
+    });
+  });
+}
+
+// Only workouts the metadata registry attributes to the program count: anything else in the
+// same slot was scheduled by the user or another program. Each workout is taken by the first
+// occurrence it matches, so two slots at the same time need two workouts.
+function scheduledMatcher(
+  programId: string,
+  scheduled: ScheduledWorkout[],
+): (occurrence: TrainingProgramOccurrence) => ScheduledWorkout | undefined {
+  const available = scheduled.filter(
+    (workout) => workout.programId === programId,
+  );
+  return (occurrence) => {
+    const index = available.findIndex((workout) =>
+      isSameScheduledDate(workout.date, occurrence.date),
+    );
+    return index === -1 ? undefined : available.splice(index, 1)[0];
+  };
+}
+
+/**
+ * Compares a program against `getScheduledWorkouts()`: an occurrence counts as scheduled when
+ * the program scheduled a workout at its exact date and time (`programId` matches).
+ */
+export function getTrainingProgramProgress(
+  program: TrainingProgram,
+  scheduled: ScheduledWorkout[],
+  now: Date = new Date(),
+): TrainingProgramProgress {
+  const start = programStart(program);
+  const findScheduled = scheduledMatcher(program.id, scheduled);
+  const occurrences = expandTrainingProgram(program).map((occurrence) => {
+    const date = dateFromComponents(occurrence.date)!;
+    if (date < now) {
+      return { ...occurrence, status: "past" as const };
+    }
+    const match = findScheduled(occurrence);
+    return match
+      ? { ...occurrence, status: "scheduled" as const, scheduledId: match.id }
+      : { ...occurrence, status: "pending" as const };
+  });
+
+  const week = Math.floor((now.getTime() - start.getTime()) / (7 * DAY_MS));
+  const count = (status: TrainingProgramOccurrenceStatus) =>
+    occurrences.filter((occurrence) => occurrence.status === status).length;
+
+  return {
+    occurrences,
+    total: occurrences.length,
+    past: count("past"),
+    scheduled: count("scheduled"),
+    pending: count("pending"),
+    currentWeek: week >= 0 && week < program.weeks.length ? week : null,
+  };
+}
+
+/**
+ * Schedules the occurrences of `program` that fall in the next `windowDays` and aren't
+ * scheduled yet. Call it again (e.g. on app launch) to roll the window forward.
+ *
+ * Every workout in the program is validated first; a `WorkoutsConfigError` names the slot. If
+ * one occurrence fails to schedule, or the workouts can't be attributed to the program in the
+ * metadata registry, the ones this call scheduled are removed again before rejecting.
+ *
+ * Scheduled workouts are attributed to the program through the metadata registry; configure
+ * persistent storage with `configureWorkoutMetadataStorage` to keep track of them across app
+ * launches.
+ */
+export async function scheduleProgram(
+  program: TrainingProgram,
+  options: ScheduleProgramOptions = {},
+): Promise<ScheduleProgramResult> {
+  const { windowDays = DEFAULT_PROGRAM_WINDOW_DAYS, now = new Date() } =
+    options;
+  validateProgramWorkouts(program);
+  const windowEnd = new Date(now.getTime() + windowDays * DAY_MS);
+  const inWindow = expandTrainingProgram(program).filter((occurrence) => {
+    const date = dateFromComponents(occurrence.date)!;
+    return date >= now && date < windowEnd;
+  });
+
+  const findScheduled = scheduledMatcher(
+    program.id,
+    await ReactNativeWorkouts.getScheduledWorkouts(),
+  );
+  const result: ScheduleProgramResult = { scheduled: [], alreadyScheduled: [] };
+  const pending: TrainingProgramOccurrence[] = [];
+  for (const occurrence of inWindow) {
+    if (findScheduled(occurrence)) {
+      result.alreadyScheduled.push(occurrence);
+    } else {
+      pending.push(occurrence);
+    }
+  }
+
+  const plans: WorkoutPlan[] = [];
+  try {
+    for (const occurrence of pending) {
+      plans.push(await createWorkoutPlan(occurrence.workout));
+    }
+    const batch = await scheduleMany(
+      pending.map((occurrence, index) => ({
+        plan: plans[index],
+        date: occurrence.date,
+      })),
+      { atomic: true },
+    );
+    const failure = batch.items.find((item) => item.status === "failed");
+    if (failure) {
+      throw failure.error;
+    }
+    try {
+      await assignScheduledWorkoutsToProgram(
+        batch.items.map((item) => item.id!),
+        program.id,
+      );
+    } catch (e) {
+      // Untagged workouts would be invisible to the program and scheduled again next time.
+      for (const item of batch.items) {
+        await ReactNativeWorkouts.removeScheduledWorkout(
+          item.id!,
+          item.date,
+        ).catch(() => {});
+      }
+      throw e;
+    }
+  } finally {
+    plans.forEach((plan) => plan.release());
+  }
+  result.scheduled = pending;
+  return result;
+}
+
+/**
+ * Removes the scheduled occurrences of a program, found through the metadata registry (so this
+ * works across app launches with persistent storage). Workouts the program didn't schedule are
+ * left alone. Resolves with the number removed.
+ */
+export async function unscheduleProgram(
+  program: TrainingProgram | string,
+): Promise<number> {
+  const programId = typeof program === "string" ? program : program.id;
+  const existing = await ReactNativeWorkouts.getScheduledWorkouts();
+  let removed = 0;
+  for (const workout of existing) {
+    if (workout.programId !== programId) continue;
+    await ReactNativeWorkouts.removeScheduledWorkout(workout.id, workout.date);
+    removed += 1;
+  }
+  return removed;
+}
@@ -0,0 +1,289 @@
+import type {
+  DistanceTimePacerTarget,
+  DistanceUnit,
+  PaceUnit,
+  PacerTarget,
+  SpeedUnit,
+  WorkoutPlanDefinition,
+} from "./ReactNativeWorkouts.types";
+import {
+  METERS_PER_DISTANCE_UNIT,
+  METERS_PER_PACE_UNIT,
+  METERS_PER_SECOND_PER_SPEED_UNIT,
+  canonicalDistanceUnit,
+  canonicalPaceUnit,
+  canonicalSpeedUnit,
+  canonicalizeUnits,
+  isDistanceUnit,
+  isPaceUnit,
+  isSpeedUnit,
+  toMeters,
+  toMetersPerSecond,
+  toSeconds,
+  toSecondsPerMeter,
+} from "./units";
+
+type WorkoutConfig = WorkoutPlanDefinition["config"];
+
+export type UnitSystem = "metric" | "imperial";
+
+export interface PacerTargetRates {
+  pace: number;
+  paceUnit: PaceUnit;
+  speed: number;
+  speedUnit: SpeedUnit;
+}
+
+export interface ConvertWorkoutUnitsOptions {
+  /**
+   * Decimal places kept for converted values. Defaults to 2. Values whose unit is already in
+   * the target system are not rounded.
+   */
+  precision?: number;
+}
+
+/**
+ * Converts a distance between units.
+ */
+export function convertDistance(
+  value: number,
+  from: DistanceUnit,
+  to: DistanceUnit,
+): number {
+  return (
+    (value * METERS_PER_DISTANCE_UNIT[from]) / METERS_PER_DISTANCE_UNIT[to]
+  );
+}
+
+/**
+ * Converts a pace between units, e.g. `convertPace(5, "min/km", "min/mi")` ≈ 8.05.
+ */
+export function convertPace(
+  value: number,
+  from: PaceUnit,
+  to: PaceUnit,
+): number {
+  // Minutes per unit scale with the unit's length.
+  return (value * METERS_PER_PACE_UNIT[to]) / METERS_PER_PACE_UNIT[from];
+}
+
+function convertSpeed(value: number, from: SpeedUnit, to: SpeedUnit): number {
+  return (
+    (value * METERS_PER_SECOND_PER_SPEED_UNIT[from]) /
+    METERS_PER_SECOND_PER_SPEED_UNIT[to]
+  );
+}
+
+/**
+ * Converts a pace (minutes per km / mile) to a speed, e.g. `paceToSpeed(5, "min/km", "km/h")`
+ * is 12. Units default to the native defaults (`"minutesPerKilometer"`, `"metersPerSecond"`).
+ */
+export function paceToSpeed(
+  pace: number,
+  paceUnit: PaceUnit = "minutesPerKilometer",
+  speedUnit: SpeedUnit = "metersPerSecond",
+): number {
+  const metersPerSecond = METERS_PER_PACE_UNIT[paceUnit] / (pace * 60);
+  return metersPerSecond / METERS_PER_SECOND_PER_SPEED_UNIT[speedUnit];
+}
+
+/**
+ * The pace and speed a pacer target implies, e.g. 5 km in 24:30 is 4.9 min/km or ~12.24 km/h.
+ * Units default to the native defaults (`"minutesPerKilometer"`, `"metersPerSecond"`).
+ *
+ * Throws if the distance, time or value isn't a positive number, or the unit doesn't match the
+ * target type.
+ */
+export function getPacerTargetRates(
+  target: PacerTarget | DistanceTimePacerTarget,
+  units: { paceUnit?: PaceUnit; speedUnit?: SpeedUnit } = {},
+): PacerTargetRates {
+  const paceUnit = canonicalPaceUnit(units.paceUnit);
+  const speedUnit = canonicalSpeedUnit(units.speedUnit);
+  const positive = (value: number) => Number.isFinite(value) && value > 0;
+  let secondsPerMeter: number;
+  switch (target.type) {
+    case "distanceTime":
+      if (!positive(target.distance) || !positive(target.time)) {
+        throw new Error(
+          `Pacer distance and time must be positive numbers, got ${target.distance} in ${target.time}`,
+        );
+      }
+      secondsPerMeter =
+        toSeconds(target.time, target.timeUnit) /
+        toMeters(target.distance, target.distanceUnit);
+      break;
+    case "pace":
+      if (!positive(target.value)) {
+        throw new Error(
+          `Pacer pace must be a positive number, got ${target.value}`,
+        );
+      }
+      if (target.unit !== undefined && !isPaceUnit(target.unit)) {
+        throw new Error(`Unknown pace unit "${target.unit}"`);
+      }
+      secondsPerMeter = toSecondsPerMeter(target.value, target.unit);
+      break;
+    case "speed":
+      if (!positive(target.value)) {
+        throw new Error(
+          `Pacer speed must be a positive number, got ${target.value}`,
+        );
+      }
+      if (target.unit !== undefined && !isSpeedUnit(target.unit)) {
+        throw new Error(`Unknown speed unit "${target.unit}"`);
+      }
+      secondsPerMeter = 1 / toMetersPerSecond(target.value, target.unit);
+      break;
+  }
+  return {
+    pace: (secondsPerMeter * METERS_PER_PACE_UNIT[paceUnit]) / 60,
+    paceUnit,
+    speed: 1 / secondsPerMeter / METERS_PER_SECOND_PER_SPEED_UNIT[speedUnit],
+    speedUnit,
+  };
+}
+
+/**
+ * Returns a copy of `config` with every unit alias (`"km"`, `"kph"`, `"min/mi"`, ...) replaced
+ * by its long name (`"kilometers"`, `"kilometersPerHour"`, `"minutesPerMile"`). Missing units
+ * are left missing; unknown ones are left for validation to report.
+ */
+export function normalizeWorkoutConfig<TConfig extends WorkoutConfig>(
+  config: TConfig,
+): TConfig {
+  return canonicalizeUnits(config) as TConfig;
+}
+
+// Short distances map to short ones (meters ↔ yards) and long to long (kilometers ↔ miles).
+const DISTANCE_UNIT_IN: Record<
+  UnitSystem,
+  Partial<Record<DistanceUnit, DistanceUnit>>
+> = {
+  metric: { miles: "kilometers", yards: "meters", feet: "meters" },
+  imperial: { kilometers: "miles", meters: "yards" },
+};
+
+const PACE_UNIT_IN: Record<UnitSystem, Partial<Record<PaceUnit, PaceUnit>>> = {
+  metric: { minutesPerMile: "minutesPerKilometer" },
+  imperial: { minutesPerKilometer: "minutesPerMile" },
+};
+
+const SPEED_UNIT_IN: Record<
+  UnitSystem,
+  Partial<Record<SpeedUnit, SpeedUnit>>
+> = {
+  metric: { milesPerHour: "kilometersPerHour" },
+  imperial: {
+    metersPerSecond: "milesPerHour",
+    kilometersPerHour: "milesPerHour",
+  },
+};
+
+// Converts the numeric fields of one goal / alert / pacer target, or returns `undefined` when
+// `node` isn't one (or already uses the target system).
+function convertNode(
+  node: Record<string, unknown>,
+  system: UnitSystem,
+  round: (value: number) => number,
+): Record<string, unknown> | undefined {
+  let convert: ((value: number) => number) | undefined;
+  let unit: string | undefined;
+
+  // Distance/time pacer targets only have a distance to convert; the time stays as it is.
+  if (
+    node.type === "distanceTime" &&
+    typeof node.distance === "number" &&
+    (node.distanceUnit === undefined || isDistanceUnit(node.distanceUnit))
+  ) {
+    const from = canonicalDistanceUnit(node.distanceUnit);
+    const to = DISTANCE_UNIT_IN[system][from];
+    return to
+      ? {
+          ...node,
+          distance: round(convertDistance(node.distance, from, to)),
+          distanceUnit: to,
+        }
+      : undefined;
+  }
+
+  if (
+    node.type === "distance" &&
+    (node.unit === undefined || isDistanceUnit(node.unit))
+  ) {
+    const from = canonicalDistanceUnit(node.unit);
+    const to = DISTANCE_UNIT_IN[system][from];
+    if (to) {
+      convert = (value) => convertDistance(value, from, to);
+      unit = to;
+    }
+  } else if (
+    node.type === "pace" &&
+    (node.unit === undefined || isPaceUnit(node.unit))
+  ) {
+    const from = canonicalPaceUnit(node.unit);
+    const to = PACE_UNIT_IN[system][from];
+    if (to) {
+      convert = (value) => convertPace(value, from, to);
+      unit = to;
+    }
+  } else if (
+    node.type === "speed" &&
+    (node.unit === undefined || isSpeedUnit(node.unit))
+  ) {
+    const from = canonicalSpeedUnit(node.unit);
+    const to = SPEED_UNIT_IN[system][from];
+    if (to) {
+      convert = (value) => convertSpeed(value, from, to);
+      unit = to;
+    }
+  }
+  if (!convert) return undefined;
+
+  // Goals and pacer targets carry `value`, alerts `min` / `max`; zone alerts have neither.
+  const fields = ["value", "min", "max"].filter(
+    (field) => typeof node[field] === "number",
+  );
+  if (fields.length === 0) return undefined;
+
+  const result: Record<string, unknown> = { ...node, unit };
+  for (const field of fields) {
+    result[field] = round(convert(node[field] as number));
+  }
+  return result;
+}
+
+function convertTree(
+  value: unknown,
+  system: UnitSystem,
+  round: (value: number) => number,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => convertTree(item, system, round));
+  }
+  if (typeof value !== "object" || value === null) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    result[key] = convertTree(child, system, round);
+  }
+  return convertNode(result, system, round) ?? result;
+}
+
+/**
+ * Returns a copy of `config` with every distance goal, `PaceAlert`, `SpeedAlert` and
+ * pacer target expressed in `system`: kilometers ↔ miles, meters ↔ yards, min/km ↔ min/mi,
+ * km/h and m/s ↔ mph. Converted values are rounded to `precision` decimals.
+ *
+ * Units are normalized too (see `normalizeWorkoutConfig`). Time and energy goals, heart rate,
+ * cadence and power alerts, and pace zones are left as they are.
+ */
+export function convertWorkoutUnits<TConfig extends WorkoutConfig>(
+  config: TConfig,
+  system: UnitSystem,
+  options: ConvertWorkoutUnitsOptions = {},
+): TConfig {
+  const factor = 10 ** Math.max(0, Math.floor(options.precision ?? 2));
+  const round = (value: number) => Math.round(value * factor) / factor;
+  return convertTree(normalizeWorkoutConfig(config), system, round) as TConfig;
+}
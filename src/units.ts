@@ -0,0 +1,246 @@
+import type {
+  DistanceUnit,
+  EnergyUnit,
+  PaceUnit,
+  SpeedUnit,
+  TimeUnit,
+} from "./ReactNativeWorkouts.types";
+
+// Conversion tables mirror the Swift `parse*Unit` helpers: every alias accepted natively
+// has exactly one entry here, expressed in the base unit of its dimension.
+
+/**
+ * Meters per one unit of each `DistanceUnit` alias.
+ */
+export const METERS_PER_DISTANCE_UNIT: Record<DistanceUnit, number> = {
+  meters: 1,
+  m: 1,
+  kilometers: 1000,
+  km: 1000,
+  miles: 1609.344,
+  mi: 1609.344,
+  yards: 0.9144,
+  yd: 0.9144,
+  feet: 0.3048,
+  ft: 0.3048,
+};
+
+/**
+ * Seconds per one unit of each `TimeUnit` alias.
+ */
+export const SECONDS_PER_TIME_UNIT: Record<TimeUnit, number> = {
+  seconds: 1,
+  s: 1,
+  sec: 1,
+  minutes: 60,
+  min: 60,
+  hours: 3600,
+  h: 3600,
+  hr: 3600,
+};
+
+/**
+ * Kilocalories per one unit of each `EnergyUnit` alias.
+ *
+ * Note: `"cal"` is treated as kilocalories, same as the native side.
+ */
+export const KILOCALORIES_PER_ENERGY_UNIT: Record<EnergyUnit, number> = {
+  kilocalories: 1,
+  kcal: 1,
+  cal: 1,
+  kilojoules: 1 / 4.184,
+  kj: 1 / 4.184,
+};
+
+/**
+ * Meters per second for one unit of each `SpeedUnit` alias.
+ */
+export const METERS_PER_SECOND_PER_SPEED_UNIT: Record<SpeedUnit, number> = {
+  metersPerSecond: 1,
+  mps: 1,
+  "m/s": 1,
+  kilometersPerHour: 1000 / 3600,
+  kph: 1000 / 3600,
+  "km/h": 1000 / 3600,
+  milesPerHour: 1609.344 / 3600,
+  mph: 1609.344 / 3600,
+};
+
+/**
+ * Length (in meters) of the distance a `PaceUnit` is measured over (minutes per km / mile).
+ */
+export const METERS_PER_PACE_UNIT: Record<PaceUnit, number> = {
+  minutesPerKilometer: 1000,
+  "min/km": 1000,
+  minutesPerMile: 1609.344,
+  "min/mi": 1609.344,
+};
+
+function hasKey<T extends string>(
+  table: Record<T, number>,
+  value: unknown,
+): value is T {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(table, value)
+  );
+}
+
+export function isDistanceUnit(value: unknown): value is DistanceUnit {
+  return hasKey(METERS_PER_DISTANCE_UNIT, value);
+}
+
+export function isTimeUnit(value: unknown): value is TimeUnit {
+  return hasKey(SECONDS_PER_TIME_UNIT, value);
+}
+
+export function isEnergyUnit(value: unknown): value is EnergyUnit {
+  return hasKey(KILOCALORIES_PER_ENERGY_UNIT, value);
+}
+
+export function isSpeedUnit(value: unknown): value is SpeedUnit {
+  return hasKey(METERS_PER_SECOND_PER_SPEED_UNIT, value);
+}
+
+export function isPaceUnit(value: unknown): value is PaceUnit {
+  return hasKey(METERS_PER_PACE_UNIT, value);
+}
+
+// Canonical units are the long-form names (the first alias of each union type).
+
+const CANONICAL_DISTANCE_UNIT: Record<DistanceUnit, DistanceUnit> = {
+  meters: "meters",
+  m: "meters",
+  kilometers: "kilometers",
+  km: "kilometers",
+  miles: "miles",
+  mi: "miles",
+  yards: "yards",
+  yd: "yards",
+  feet: "feet",
+  ft: "feet",
+};
+
+const CANONICAL_TIME_UNIT: Record<TimeUnit, TimeUnit> = {
+  seconds: "seconds",
+  s: "seconds",
+  sec: "seconds",
+  minutes: "minutes",
+  min: "minutes",
+  hours: "hours",
+  h: "hours",
+  hr: "hours",
+};
+
+const CANONICAL_ENERGY_UNIT: Record<EnergyUnit, EnergyUnit> = {
+  kilocalories: "kilocalories",
+  kcal: "kilocalories",
+  cal: "kilocalories",
+  kilojoules: "kilojoules",
+  kj: "kilojoules",
+};
+
+const CANONICAL_SPEED_UNIT: Record<SpeedUnit, SpeedUnit> = {
+  metersPerSecond: "metersPerSecond",
+  mps: "metersPerSecond",
+  "m/s": "metersPerSecond",
+  kilometersPerHour: "kilometersPerHour",
+  kph: "kilometersPerHour",
+  "km/h": "kilometersPerHour",
+  milesPerHour: "milesPerHour",
+  mph: "milesPerHour",
+};
+
+const CANONICAL_PACE_UNIT: Record<PaceUnit, PaceUnit> = {
+  minutesPerKilometer: "minutesPerKilometer",
+  "min/km": "minutesPerKilometer",
+  minutesPerMile: "minutesPerMile",
+  "min/mi": "minutesPerMile",
+};
+
+// Missing units resolve to the same defaults as the native parsers.
+
+export function canonicalDistanceUnit(unit?: DistanceUnit): DistanceUnit {
+  return CANONICAL_DISTANCE_UNIT[unit ?? "meters"];
+}
+
+export function canonicalTimeUnit(unit?: TimeUnit): TimeUnit {
+  return CANONICAL_TIME_UNIT[unit ?? "seconds"];
+}
+
+export function canonicalEnergyUnit(unit?: EnergyUnit): EnergyUnit {
+  return CANONICAL_ENERGY_UNIT[unit ?? "kilocalories"];
+}
+
+export function canonicalSpeedUnit(unit?: SpeedUnit): SpeedUnit {
+  return CANONICAL_SPEED_UNIT[unit ?? "metersPerSecond"];
+}
+
+export function canonicalPaceUnit(unit?: PaceUnit): PaceUnit {
+  return CANONICAL_PACE_UNIT[unit ?? "minutesPerKilometer"];
+}
+
+// Canonicalizes the unit of every goal, alert and pacer target, using `type` to tell which
+// kind of unit it is. Unknown units are left alone for validation to report.
+const UNIT_CANONICALIZERS: Record<
+  string,
+  { is: (unit: unknown) => boolean; canonical: (unit: never) => string }
+> = {
+  distance: { is: isDistanceUnit, canonical: canonicalDistanceUnit },
+  time: { is: isTimeUnit, canonical: canonicalTimeUnit },
+  energy: { is: isEnergyUnit, canonical: canonicalEnergyUnit },
+  speed: { is: isSpeedUnit, canonical: canonicalSpeedUnit },
+  pace: { is: isPaceUnit, canonical: canonicalPaceUnit },
+};
+
+export function canonicalizeUnits(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalizeUnits);
+  if (typeof value !== "object" || value === null) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    result[key] = canonicalizeUnits(child);
+  }
+  const canonicalizer =
+    typeof result.type === "string"
+      ? UNIT_CANONICALIZERS[result.type]
+      : undefined;
+  if (canonicalizer && canonicalizer.is(result.unit)) {
+    result.unit = canonicalizer.canonical(result.unit as never);
+  }
+  // Distance/time pacer targets name both of their units.
+  if (result.type === "distanceTime") {
+    if (isDistanceUnit(result.distanceUnit)) {
+      result.distanceUnit = canonicalDistanceUnit(result.distanceUnit);
+    }
+    if (isTimeUnit(result.timeUnit)) {
+      result.timeUnit = canonicalTimeUnit(result.timeUnit);
+    }
+  }
+  return result;
+}
+
+// Conversions to base units (missing units use the native defaults).
+
+export function toMeters(value: number, unit?: DistanceUnit): number {
+  return value * METERS_PER_DISTANCE_UNIT[unit ?? "meters"];
+}
+
+export function toSeconds(value: number, unit?: TimeUnit): number {
+  return value * SECONDS_PER_TIME_UNIT[unit ?? "seconds"];
+}
+
+export function toKilocalories(value: number, unit?: EnergyUnit): number {
+  return value * KILOCALORIES_PER_ENERGY_UNIT[unit ?? "kilocalories"];
+}
+
+export function toMetersPerSecond(value: number, unit?: SpeedUnit): number {
+  return value * METERS_PER_SECOND_PER_SPEED_UNIT[unit ?? "metersPerSecond"];
+}
+
+/**
+ * Converts a pace (minutes per km / mile) to seconds per meter.
+ */
+export function toSecondsPerMeter(value: number, unit?: PaceUnit): number {
+  return (value * 60) / METERS_PER_PACE_UNIT[unit ?? "minutesPerKilometer"];
+}
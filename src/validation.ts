@@ -0,0 +1,782 @@
+import type {
+  ActivityType,
+  LocationType,
+  PaceZoneName,
+  StepPurpose,
+  SwimBikeRunActivityType,
+  WorkoutPlanKind,
+} from "./ReactNativeWorkouts.types";
+import { COGGAN_POWER_ZONES } from "./powerZones";
+import {
+  KILOCALORIES_PER_ENERGY_UNIT,
+  METERS_PER_DISTANCE_UNIT,
+  METERS_PER_PACE_UNIT,
+  METERS_PER_SECOND_PER_SPEED_UNIT,
+  SECONDS_PER_TIME_UNIT,
+} from "./units";
+
+export type WorkoutConfigIssueCode =
+  /** A required field is missing (or `null`). */
+  | "required"
+  /** A field has the wrong JS type (e.g. a string where a number is expected). */
+  | "invalidType"
+  /** A string field is not one of the allowed values (activity type, goal type, ...). */
+  | "unknownValue"
+  /** A unit alias the native side does not understand (it would silently fall back). */
+  | "unknownUnit"
+  /** A number is outside of its allowed range (e.g. `<= 0`, not an integer). */
+  | "outOfRange"
+  /** A `min`/`max` pair where `min > max`. */
+  | "invalidRange"
+  /** A list that must contain at least one item is empty. */
+  | "empty"
+  /** Mutually exclusive fields are set together. */
+  | "conflict"
+  /** A relative target (% FTP, power or pace zone) that must be resolved to absolute values first. */
+  | "unresolved";
+
+export interface WorkoutConfigIssue {
+  /**
+   * JSON path of the offending value, e.g. `blocks[1].steps[0].alert.max`.
+   *
+   * Empty string for issues about the config itself.
+   */
+  path: string;
+  code: WorkoutConfigIssueCode;
+  message: string;
+}
+
+export interface WorkoutConfigValidation {
+  valid: boolean;
+  issues: WorkoutConfigIssue[];
+}
+
+const ACTIVITY_TYPES: readonly ActivityType[] = [
+  "running",
+  "cycling",
+  "walking",
+  "hiking",
+  "swimming",
+  "rowing",
+  "elliptical",
+  "stairClimbing",
+  "highIntensityIntervalTraining",
+  "yoga",
+  "functionalStrengthTraining",
+  "traditionalStrengthTraining",
+  "dance",
+  "jumpRope",
+  "coreTraining",
+  "pilates",
+  "kickboxing",
+  "stairs",
+  "stepTraining",
+  "wheelchairRunPace",
+  "wheelchairWalkPace",
+];
+
+const LOCATION_TYPES: readonly LocationType[] = ["indoor", "outdoor"];
+
+const STEP_PURPOSES: readonly StepPurpose[] = ["work", "recovery"];
+
+const SWIM_BIKE_RUN_ACTIVITY_TYPES: readonly SwimBikeRunActivityType[] = [
+  "swimming",
+  "cycling",
+  "running",
+];
+
+const PACE_ZONE_NAMES: readonly PaceZoneName[] = [
+  "easy",
+  "marathon",
+  "threshold",
+  "interval",
+  "repetition",
+];
+
+// WorkoutKit exposes five heart rate zones.
+const MAX_HEART_RATE_ZONE = 5;
+
+type Issues = WorkoutConfigIssue[];
+type UnknownRecord = Record<string, unknown>;
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${base}[${key}]`;
+  }
+  return base ? `${base}.${key}` : key;
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+// Native lowercases type and unit strings before matching them ("KM" is kilometers there).
+function lowerCase(value: unknown): unknown {
+  return typeof value === "string" ? value.toLowerCase() : value;
+}
+
+function requireRecord(
+  value: unknown,
+  path: string,
+  label: string,
+  issues: Issues,
+): value is UnknownRecord {
+  if (isMissing(value)) {
+    issues.push({ path, code: "required", message: `${label} is required` });
+    return false;
+  }
+  if (!isRecord(value)) {
+    issues.push({
+      path,
+      code: "invalidType",
+      message: `${label} must be an object, got ${describe(value)}`,
+    });
+    return false;
+  }
+  return true;
+}
+
+function checkOptionalRecord(
+  value: unknown,
+  path: string,
+  label: string,
+  issues: Issues,
+): value is UnknownRecord {
+  if (value === undefined) return false;
+  return requireRecord(value, path, label, issues);
+}
+
+function checkNumber(
+  value: unknown,
+  path: string,
+  label: string,
+  issues: Issues,
+  options: { positive?: boolean; integer?: boolean; min?: number } = {},
+): value is number {
+  if (isMissing(value)) {
+    issues.push({ path, code: "required", message: `${label} is required` });
+    return false;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push({
+      path,
+      code: "invalidType",
+      message: `${label} must be a finite number, got ${describe(value)}`,
+    });
+    return false;
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    issues.push({
+      path,
+      code: "outOfRange",
+      message: `${label} must be an integer, got ${value}`,
+    });
+    return false;
+  }
+  if (options.positive && value <= 0) {
+    issues.push({
+      path,
+      code: "outOfRange",
+      message: `${label} must be > 0, got ${value}`,
+    });
+    return false;
+  }
+  if (options.min !== undefined && value < options.min) {
+    issues.push({
+      path,
+      code: "outOfRange",
+      message: `${label} must be >= ${options.min}, got ${value}`,
+    });
+    return false;
+  }
+  return true;
+}
+
+function checkEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  path: string,
+  label: string,
+  issues: Issues,
+  options: { required: boolean; caseSensitive?: boolean },
+): value is T {
+  if (isMissing(value)) {
+    if (options.required) {
+      issues.push({ path, code: "required", message: `${label} is required` });
+    }
+    return false;
+  }
+  if (typeof value !== "string") {
+    issues.push({
+      path,
+      code: "invalidType",
+      message: `${label} must be a string, got ${describe(value)}`,
+    });
+    return false;
+  }
+  const matches = options.caseSensitive
+    ? allowed.includes(value as T)
+    : allowed.some((name) => name.toLowerCase() === value.toLowerCase());
+  if (!matches) {
+    issues.push({
+      path,
+      code: "unknownValue",
+      message: `Unknown ${label.toLowerCase()}: ${value} (expected one of ${allowed.join(
+        ", ",
+      )})`,
+    });
+    return false;
+  }
+  return true;
+}
+
+function checkUnit(
+  value: unknown,
+  units: Record<string, number>,
+  path: string,
+  label: string,
+  issues: Issues,
+): void {
+  if (value === undefined) return;
+  const name = lowerCase(value);
+  if (!Object.keys(units).some((unit) => unit.toLowerCase() === name)) {
+    issues.push({
+      path,
+      code: "unknownUnit",
+      message: `Unknown ${label} unit: ${String(value)}`,
+    });
+  }
+}
+
+function checkDisplayName(config: UnknownRecord, issues: Issues): void {
+  const value = config.displayName;
+  if (value !== undefined && typeof value !== "string") {
+    issues.push({
+      path: "displayName",
+      code: "invalidType",
+      message: `Display name must be a string, got ${describe(value)}`,
+    });
+  }
+}
+
+function checkMinMax(
+  alert: UnknownRecord,
+  path: string,
+  issues: Issues,
+  options: { positive: boolean; keys?: [string, string] },
+): void {
+  const [minKey, maxKey] = options.keys ?? ["min", "max"];
+  const minPath = joinPath(path, minKey);
+  const maxPath = joinPath(path, maxKey);
+  const min = alert[minKey];
+  const max = alert[maxKey];
+  const hasMin = checkNumber(min, minPath, `Alert ${minKey}`, issues, options);
+  const hasMax = checkNumber(max, maxPath, `Alert ${maxKey}`, issues, options);
+  if (hasMin && hasMax && min > max) {
+    issues.push({
+      path: maxPath,
+      code: "invalidRange",
+      message: `Alert ${maxKey} (${max}) must be >= ${minKey} (${min})`,
+    });
+  }
+}
+
+// Shared by pace zone alerts and pacer targets: zone name, unit and the `unresolved` issue.
+function validatePaceZone(
+  target: UnknownRecord,
+  path: string,
+  issues: Issues,
+): void {
+  checkEnum(
+    target.zone,
+    PACE_ZONE_NAMES,
+    joinPath(path, "zone"),
+    "Pace zone",
+    issues,
+    // Zones are resolved in JS, which matches their names exactly.
+    { required: true, caseSensitive: true },
+  );
+  checkUnit(
+    target.unit,
+    METERS_PER_PACE_UNIT,
+    joinPath(path, "unit"),
+    "pace",
+    issues,
+  );
+  issues.push({
+    path,
+    code: "unresolved",
+    message:
+      "Pace zone must be resolved with resolvePaceAlerts()/resolvePacerTarget() before creating a plan",
+  });
+}
+
+function validateRelativePowerAlert(
+  alert: UnknownRecord,
+  path: string,
+  issues: Issues,
+): void {
+  const isZone = alert.zone !== undefined;
+  if (
+    alert.min !== undefined ||
+    alert.max !== undefined ||
+    (isZone &&
+      (alert.minPercentFtp !== undefined || alert.maxPercentFtp !== undefined))
+  ) {
+    issues.push({
+      path,
+      code: "conflict",
+      message:
+        "Power alert must set exactly one of min/max, minPercentFtp/maxPercentFtp or zone",
+    });
+  }
+  if (isZone) {
+    checkEnum(
+      alert.zone,
+      COGGAN_POWER_ZONES.map((zone) => zone.name),
+      joinPath(path, "zone"),
+      "Power zone",
+      issues,
+      { required: true, caseSensitive: true },
+    );
+  } else {
+    checkMinMax(alert, path, issues, {
+      positive: true,
+      keys: ["minPercentFtp", "maxPercentFtp"],
+    });
+  }
+  issues.push({
+    path,
+    code: "unresolved",
+    message:
+      "Relative power alert must be resolved to watts with resolvePowerAlerts() before creating a plan",
+  });
+}
+
+function validateGoal(goal: unknown, path: string, issues: Issues): void {
+  if (!requireRecord(goal, path, "Goal", issues)) return;
+
+  const typePath = joinPath(path, "type");
+  const valuePath = joinPath(path, "value");
+  const unitPath = joinPath(path, "unit");
+
+  switch (lowerCase(goal.type)) {
+    case "open":
+      return;
+    case "distance":
+      checkNumber(goal.value, valuePath, "Distance value", issues, {
+        positive: true,
+      });
+      checkUnit(
+        goal.unit,
+        METERS_PER_DISTANCE_UNIT,
+        unitPath,
+        "distance",
+        issues,
+      );
+      return;
+    case "time":
+      checkNumber(goal.value, valuePath, "Time value", issues, {
+        positive: true,
+      });
+      checkUnit(goal.unit, SECONDS_PER_TIME_UNIT, unitPath, "time", issues);
+      return;
+    case "energy":
+      checkNumber(goal.value, valuePath, "Energy value", issues, {
+        positive: true,
+      });
+      checkUnit(
+        goal.unit,
+        KILOCALORIES_PER_ENERGY_UNIT,
+        unitPath,
+        "energy",
+        issues,
+      );
+      return;
+    default:
+      checkEnum(
+        goal.type,
+        ["open", "distance", "time", "energy"],
+        typePath,
+        "Goal type",
+        issues,
+        { required: true },
+      );
+  }
+}
+
+function validateAlert(alert: unknown, path: string, issues: Issues): void {
+  if (!requireRecord(alert, path, "Alert", issues)) return;
+
+  switch (lowerCase(alert.type)) {
+    case "heartrate":
+      if (alert.zone !== undefined) {
+        if (alert.min !== undefined || alert.max !== undefined) {
+          issues.push({
+            path,
+            code: "conflict",
+            message:
+              "Heart rate alert must set either zone or min/max, not both",
+          });
+        }
+        if (
+          checkNumber(
+            alert.zone,
+            joinPath(path, "zone"),
+            "Heart rate zone",
+            issues,
+            {
+              integer: true,
+              min: 1,
+            },
+          ) &&
+          (alert.zone as number) > MAX_HEART_RATE_ZONE
+        ) {
+          issues.push({
+            path: joinPath(path, "zone"),
+            code: "outOfRange",
+            message: `Heart rate zone must be <= ${MAX_HEART_RATE_ZONE}, got ${alert.zone}`,
+          });
+        }
+        return;
+      }
+      checkMinMax(alert, path, issues, { positive: true });
+      return;
+    case "pace":
+      if (alert.zone !== undefined) {
+        validatePaceZone(alert, path, issues);
+        if (alert.min !== undefined || alert.max !== undefined) {
+          issues.push({
+            path,
+            code: "conflict",
+            message: "Pace alert must set either zone or min/max, not both",
+          });
+        }
+        if (alert.offsetSeconds !== undefined) {
+          checkNumber(
+            alert.offsetSeconds,
+            joinPath(path, "offsetSeconds"),
+            "Pace offset",
+            issues,
+            { positive: true },
+          );
+        }
+        return;
+      }
+      checkMinMax(alert, path, issues, { positive: true });
+      checkUnit(
+        alert.unit,
+        METERS_PER_PACE_UNIT,
+        joinPath(path, "unit"),
+        "pace",
+        issues,
+      );
+      return;
+    case "speed":
+      checkMinMax(alert, path, issues, { positive: true });
+      checkUnit(
+        alert.unit,
+        METERS_PER_SECOND_PER_SPEED_UNIT,
+        joinPath(path, "unit"),
+        "speed",
+        issues,
+      );
+      return;
+    case "power":
+      if (
+        alert.zone !== undefined ||
+        alert.minPercentFtp !== undefined ||
+        alert.maxPercentFtp !== undefined
+      ) {
+        validateRelativePowerAlert(alert, path, issues);
+        return;
+      }
+      checkMinMax(alert, path, issues, { positive: true });
+      return;
+    case "cadence":
+      checkMinMax(alert, path, issues, { positive: true });
+      return;
+    default:
+      checkEnum(
+        alert.type,
+        ["heartRate", "pace", "speed", "cadence", "power"],
+        joinPath(path, "type"),
+        "Alert type",
+        issues,
+        { required: true },
+      );
+  }
+}
+
+function validateWorkoutStep(
+  step: unknown,
+  path: string,
+  issues: Issues,
+): void {
+  if (!requireRecord(step, path, "Step", issues)) return;
+
+  if (step.goal !== undefined) {
+    validateGoal(step.goal, joinPath(path, "goal"), issues);
+  }
+  if (step.alert !== undefined) {
+    validateAlert(step.alert, joinPath(path, "alert"), issues);
+  }
+}
+
+function checkList(
+  value: unknown,
+  path: string,
+  label: string,
+  issues: Issues,
+): value is unknown[] {
+  if (isMissing(value)) {
+    issues.push({ path, code: "required", message: `${label} are required` });
+    return false;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({
+      path,
+      code: "invalidType",
+      message: `${label} must be an array, got ${describe(value)}`,
+    });
+    return false;
+  }
+  if (value.length === 0) {
+    issues.push({
+      path,
+      code: "empty",
+      message: `${label} must contain at least one item`,
+    });
+    return false;
+  }
+  return true;
+}
+
+function validateIntervalBlock(
+  block: unknown,
+  path: string,
+  issues: Issues,
+): void {
+  if (!requireRecord(block, path, "Interval block", issues)) return;
+
+  if (block.iterations !== undefined) {
+    checkNumber(
+      block.iterations,
+      joinPath(path, "iterations"),
+      "Iterations",
+      issues,
+      { integer: true, min: 1 },
+    );
+  }
+
+  const stepsPath = joinPath(path, "steps");
+  if (!checkList(block.steps, stepsPath, "Interval steps", issues)) return;
+
+  block.steps.forEach((step, index) => {
+    const stepPath = joinPath(stepsPath, index);
+    validateWorkoutStep(step, stepPath, issues);
+    if (isRecord(step)) {
+      checkEnum(
+        step.purpose,
+        STEP_PURPOSES,
+        joinPath(stepPath, "purpose"),
+        "Step purpose",
+        issues,
+        { required: true },
+      );
+    }
+  });
+}
+
+function validateActivityAndLocation(
+  config: UnknownRecord,
+  issues: Issues,
+): void {
+  checkEnum(
+    config.activityType,
+    ACTIVITY_TYPES,
+    "activityType",
+    "Activity type",
+    issues,
+    { required: true },
+  );
+  checkEnum(
+    config.locationType,
+    LOCATION_TYPES,
+    "locationType",
+    "Location type",
+    issues,
+    { required: false },
+  );
+}
+
+function validateCustomConfig(config: UnknownRecord, issues: Issues): void {
+  validateActivityAndLocation(config, issues);
+  checkDisplayName(config, issues);
+
+  if (checkOptionalRecord(config.warmup, "warmup", "Warmup", issues)) {
+    validateWorkoutStep(config.warmup, "warmup", issues);
+  }
+  if (checkList(config.blocks, "blocks", "Blocks", issues)) {
+    config.blocks.forEach((block, index) => {
+      validateIntervalBlock(block, joinPath("blocks", index), issues);
+    });
+  }
+  if (checkOptionalRecord(config.cooldown, "cooldown", "Cooldown", issues)) {
+    validateWorkoutStep(config.cooldown, "cooldown", issues);
+  }
+}
+
+function validateSingleGoalConfig(config: UnknownRecord, issues: Issues): void {
+  validateActivityAndLocation(config, issues);
+  checkDisplayName(config, issues);
+  validateGoal(config.goal, "goal", issues);
+}
+
+function validatePacerConfig(config: UnknownRecord, issues: Issues): void {
+  validateActivityAndLocation(config, issues);
+  checkDisplayName(config, issues);
+
+  const target = config.target;
+  if (!requireRecord(target, "target", "Target", issues)) return;
+
+  const targetType = lowerCase(target.type);
+  if (targetType === "pace" && target.zone !== undefined) {
+    validatePaceZone(target, "target", issues);
+    return;
+  }
+  if (targetType === "distancetime") {
+    checkNumber(target.distance, "target.distance", "Target distance", issues, {
+      positive: true,
+    });
+    checkUnit(
+      target.distanceUnit,
+      METERS_PER_DISTANCE_UNIT,
+      "target.distanceUnit",
+      "distance",
+      issues,
+    );
+    checkNumber(target.time, "target.time", "Target time", issues, {
+      positive: true,
+    });
+    checkUnit(
+      target.timeUnit,
+      SECONDS_PER_TIME_UNIT,
+      "target.timeUnit",
+      "time",
+      issues,
+    );
+    return;
+  }
+  checkNumber(target.value, "target.value", "Target value", issues, {
+    positive: true,
+  });
+  switch (targetType) {
+    case "pace":
+      checkUnit(
+        target.unit,
+        METERS_PER_PACE_UNIT,
+        "target.unit",
+        "pace",
+        issues,
+      );
+      return;
+    case "speed":
+      checkUnit(
+        target.unit,
+        METERS_PER_SECOND_PER_SPEED_UNIT,
+        "target.unit",
+        "speed",
+        issues,
+      );
+      return;
+    default:
+      checkEnum(
+        target.type,
+        ["pace", "speed", "distanceTime"],
+        "target.type",
+        "Target type",
+        issues,
+        { required: true },
+      );
+  }
+}
+
+function validateSwimBikeRunConfig(
+  config: UnknownRecord,
+  issues: Issues,
+): void {
+  checkDisplayName(config, issues);
+
+  if (!checkList(config.activities, "activities", "Activities", issues)) return;
+
+  config.activities.forEach((activity, index) => {
+    const path = joinPath("activities", index);
+    if (!requireRecord(activity, path, "Activity", issues)) return;
+    checkEnum(
+      activity.type,
+      SWIM_BIKE_RUN_ACTIVITY_TYPES,
+      joinPath(path, "type"),
+      "Activity type",
+      issues,
+      { required: true },
+    );
+    checkEnum(
+      activity.locationType,
+      LOCATION_TYPES,
+      joinPath(path, "locationType"),
+      "Location type",
+      issues,
+      { required: false },
+    );
+  });
+}
+
+/**
+ * Validates a workout config in pure TypeScript, without calling into native.
+ *
+ * Unlike the native plan factories (which throw on the first problem and silently fall back
+ * for unknown units or incomplete alerts), this collects every issue with the JSON path of the
+ * offending value, so forms and back-ends can reject bad input up front.
+ */
+export function validateWorkoutConfig(
+  kind: WorkoutPlanKind,
+  config: unknown,
+): WorkoutConfigValidation {
+  const issues: Issues = [];
+
+  if (requireRecord(config, "", "Config", issues)) {
+    switch (kind) {
+      case "custom":
+        validateCustomConfig(config, issues);
+        break;
+      case "singleGoal":
+        validateSingleGoalConfig(config, issues);
+        break;
+      case "pacer":
+        validatePacerConfig(config, issues);
+        break;
+      case "swimBikeRun":
+        validateSwimBikeRunConfig(config, issues);
+        break;
+      default:
+        issues.push({
+          path: "",
+          code: "unknownValue",
+          message: `Unknown workout plan kind: ${String(kind)}`,
+        });
+    }
+  }
+
+  return { valid: issues.length === 0, issues };
+}
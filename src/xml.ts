@@ -0,0 +1,156 @@
+// Minimal XML reader/writer helpers for the workout file formats (no external dependencies).
+// Supports elements, attributes, text, comments, CDATA and the predefined/numeric entities —
+// enough for the small, well-formed documents workout tools produce. Namespaces are not resolved.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /**
+   * Concatenated text content directly inside this element (trimmed).
+   */
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|\w+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1].toLowerCase() === "x"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+      }
+      return ENTITIES[entity] ?? match;
+    },
+  );
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+const TAG =
+  /<\/?([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses a document and returns its root element. Throws on malformed input.
+ */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  const texts: string[][] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid XML at offset ${pos}: ${message}`);
+  };
+
+  const appendText = (text: string) => {
+    if (texts.length > 0) {
+      texts[texts.length - 1].push(text);
+    } else if (text.trim() !== "") {
+      fail("text outside of the root element");
+    }
+  };
+
+  while (pos < source.length) {
+    const next = source.indexOf("<", pos);
+    if (next === -1) {
+      appendText(source.slice(pos));
+      break;
+    }
+    if (next > pos) {
+      appendText(decodeEntities(source.slice(pos, next)));
+      pos = next;
+    }
+
+    if (source.startsWith("<!--", pos)) {
+      const end = source.indexOf("-->", pos);
+      if (end === -1) fail("unterminated comment");
+      pos = end + 3;
+      continue;
+    }
+    if (source.startsWith("<![CDATA[", pos)) {
+      const end = source.indexOf("]]>", pos);
+      if (end === -1) fail("unterminated CDATA section");
+      appendText(source.slice(pos + 9, end));
+      pos = end + 3;
+      continue;
+    }
+    if (source.startsWith("<?", pos) || source.startsWith("<!", pos)) {
+      const end = source.indexOf(">", pos);
+      if (end === -1) fail("unterminated declaration");
+      pos = end + 1;
+      continue;
+    }
+
+    TAG.lastIndex = pos;
+    const match = TAG.exec(source);
+    if (!match) fail("malformed tag");
+    const [whole, name, rawAttributes, selfClosing] = match!;
+    const isClosing = whole[1] === "/";
+
+    if (isClosing) {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        fail(`unexpected </${name}>`);
+      }
+      open!.text = texts.pop()!.join("").trim();
+    } else {
+      const attributes: Record<string, string> = {};
+      for (const [, key, double, single] of rawAttributes.matchAll(ATTRIBUTE)) {
+        attributes[key] = decodeEntities(double ?? single ?? "");
+      }
+      const element: XmlElement = { name, attributes, children: [], text: "" };
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail("multiple root elements");
+      } else {
+        root = element;
+      }
+      if (!selfClosing) {
+        stack.push(element);
+        texts.push([]);
+      }
+    }
+    pos += whole.length;
+  }
+
+  if (stack.length > 0) {
+    fail(`unclosed <${stack[stack.length - 1].name}>`);
+  }
+  if (!root) {
+    fail("no root element");
+  }
+  return root!;
+}
+
+/**
+ * Returns the first direct child with the given name (case-insensitive).
+ */
+export function findChild(
+  element: XmlElement,
+  name: string,
+): XmlElement | undefined {
+  const lower = name.toLowerCase();
+  return element.children.find((child) => child.name.toLowerCase() === lower);
+}
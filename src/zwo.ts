@@ -0,0 +1,519 @@
+import type {
+  CustomWorkoutConfig,
+  IntervalBlock,
+  IntervalStep,
+  PowerAlert,
+  WorkoutAlert,
+  WorkoutFileWarning,
+  WorkoutGoal,
+  WorkoutStep,
+} from "./ReactNativeWorkouts.types";
+import { powerAlertPercentFtp, type PowerTargetAlert } from "./powerZones";
+import { toSeconds } from "./units";
+import { escapeXml, findChild, parseXml, type XmlElement } from "./xml";
+
+export interface ZwoImportOptions {
+  /**
+   * Functional threshold power in watts. ZWO power targets are fractions of FTP.
+   */
+  ftp: number;
+  /**
+   * Half-width of the watts range built around single-value targets (`SteadyState`,
+   * `IntervalsT`), as a fraction of FTP. Defaults to `0.03` (±3% FTP).
+   */
+  powerTolerance?: number;
+}
+
+export interface ZwoImportResult {
+  config: CustomWorkoutConfig;
+  warnings: WorkoutFileWarning[];
+}
+
+export interface ZwoExportOptions {
+  /**
+   * Functional threshold power in watts, used to turn `PowerAlert` watts into FTP fractions.
+   */
+  ftp: number;
+  author?: string;
+  description?: string;
+}
+
+export interface ZwoExportResult {
+  xml: string;
+  warnings: WorkoutFileWarning[];
+}
+
+const DEFAULT_POWER_TOLERANCE = 0.03;
+
+function assertFtp(ftp: number): void {
+  if (!Number.isFinite(ftp) || ftp <= 0) {
+    throw new Error(`FTP must be a positive number of watts, got ${ftp}`);
+  }
+}
+
+function readNumber(element: XmlElement, name: string): number | undefined {
+  const raw = element.attributes[name];
+  if (raw === undefined || raw.trim() === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Converts a Zwift `.zwo` workout file into a cycling `CustomWorkoutConfig`.
+ *
+ * - A leading `Warmup`/`Ramp` becomes `warmup`, a trailing `Cooldown`/`Ramp` becomes `cooldown`
+ *   (ramps are approximated by a watts range covering start and end power).
+ * - `IntervalsT` becomes an `IntervalBlock` with `iterations` and a work + recovery step (power
+ *   ramps within its intervals are approximated like `Ramp`).
+ * - Consecutive `SteadyState`/`FreeRide`/`MaxEffort` segments become work steps of one block.
+ *
+ * Throws when the document is not a ZWO workout. Anything that can't be represented exactly
+ * (ramps, cadence targets, text events, unknown segments) is reported in `warnings`.
+ */
+export function importZwo(
+  xml: string,
+  options: ZwoImportOptions,
+): ZwoImportResult {
+  assertFtp(options.ftp);
+  const { ftp } = options;
+  const tolerance = options.powerTolerance ?? DEFAULT_POWER_TOLERANCE;
+
+  const root = parseXml(xml);
+  if (root.name.toLowerCase() !== "workout_file") {
+    throw new Error(`Not a ZWO file: unexpected root element <${root.name}>`);
+  }
+  const workoutElement = findChild(root, "workout");
+  if (!workoutElement) {
+    throw new Error("Not a ZWO file: missing <workout> element");
+  }
+
+  const warnings: WorkoutFileWarning[] = [];
+
+  const sportType = findChild(root, "sportType")?.text;
+  if (sportType && sportType.toLowerCase() !== "bike") {
+    warnings.push({
+      path: "sportType",
+      message: `Sport type "${sportType}" imported as cycling`,
+    });
+  }
+  const isDistanceBased =
+    findChild(root, "durationType")?.text.toLowerCase() === "distance";
+
+  const rangeAlert = (low: number, high: number): PowerAlert => ({
+    type: "power",
+    min: Math.round(Math.min(low, high) * ftp),
+    max: Math.round(Math.max(low, high) * ftp),
+  });
+  const targetAlert = (power: number): PowerAlert =>
+    rangeAlert(power - tolerance, power + tolerance);
+  // `IntervalsT` targets OnPower/OffPower, or ramps from PowerOnLow to PowerOnHigh (and Off).
+  const intervalAlert = (
+    segment: XmlElement,
+    phase: "On" | "Off",
+    path: string,
+  ): PowerAlert | undefined => {
+    const power = readNumber(segment, `${phase}Power`);
+    if (power !== undefined) return targetAlert(power);
+    const low = readNumber(segment, `Power${phase}Low`);
+    const high = readNumber(segment, `Power${phase}High`);
+    if (low === undefined || high === undefined) {
+      const single = low ?? high;
+      return single !== undefined ? targetAlert(single) : undefined;
+    }
+    if (low !== high) {
+      warnings.push({
+        path,
+        message: `Power ramp of IntervalsT ${phase} intervals approximated by a constant power range`,
+      });
+    }
+    return rangeAlert(low, high);
+  };
+
+  const goalFrom = (value: number): WorkoutGoal =>
+    isDistanceBased
+      ? { type: "distance", value, unit: "meters" }
+      : { type: "time", value, unit: "seconds" };
+
+  const segments = workoutElement.children;
+  const blocks: IntervalBlock[] = [];
+  let pending: IntervalStep[] = [];
+  let warmup: WorkoutStep | undefined;
+  let cooldown: WorkoutStep | undefined;
+
+  const flush = () => {
+    if (pending.length > 0) {
+      blocks.push({ steps: pending });
+      pending = [];
+    }
+  };
+
+  segments.forEach((segment, index) => {
+    const path = `workout[${index}]`;
+    const kind = segment.name;
+    const duration = readNumber(segment, "Duration");
+    const isFirst = index === 0;
+    const isLast = index === segments.length - 1;
+
+    if (segment.children.length > 0) {
+      warnings.push({
+        path,
+        message: `Text events in ${kind} are not supported and were dropped`,
+      });
+    }
+    if (
+      segment.attributes.Cadence !== undefined ||
+      segment.attributes.CadenceLow !== undefined
+    ) {
+      warnings.push({
+        path,
+        message: `Cadence target of ${kind} was dropped (only one alert per step)`,
+      });
+    }
+
+    if (kind === "IntervalsT") {
+      const repeat = readNumber(segment, "Repeat") ?? 1;
+      const onDuration = readNumber(segment, "OnDuration");
+      const offDuration = readNumber(segment, "OffDuration");
+      if (onDuration === undefined || offDuration === undefined) {
+        warnings.push({
+          path,
+          message: "IntervalsT without OnDuration/OffDuration was skipped",
+        });
+        return;
+      }
+      const onAlert = intervalAlert(segment, "On", path);
+      const offAlert = intervalAlert(segment, "Off", path);
+      flush();
+      blocks.push({
+        iterations: Math.max(1, Math.round(repeat)),
+        steps: [
+          {
+            purpose: "work",
+            goal: goalFrom(onDuration),
+            ...(onAlert && { alert: onAlert }),
+          },
+          {
+            purpose: "recovery",
+            goal: goalFrom(offDuration),
+            ...(offAlert && { alert: offAlert }),
+          },
+        ],
+      });
+      return;
+    }
+
+    if (duration === undefined) {
+      warnings.push({
+        path,
+        message: `${kind} without a Duration was skipped`,
+      });
+      return;
+    }
+    const goal = goalFrom(duration);
+
+    switch (kind) {
+      case "Warmup":
+      case "Cooldown":
+      case "Ramp": {
+        const low = readNumber(segment, "PowerLow");
+        const high = readNumber(segment, "PowerHigh");
+        const step: WorkoutStep = {
+          goal,
+          ...(low !== undefined &&
+            high !== undefined && { alert: rangeAlert(low, high) }),
+        };
+        if (low !== high) {
+          warnings.push({
+            path,
+            message: `Power ramp of ${kind} approximated by a constant power range`,
+          });
+        }
+        if (isFirst && kind !== "Cooldown" && !warmup) {
+          warmup = step;
+        } else if (isLast && kind !== "Warmup") {
+          flush();
+          cooldown = step;
+        } else {
+          warnings.push({
+            path,
+            message: `${kind} in the middle of the workout imported as a work step`,
+          });
+          pending.push({ purpose: "work", ...step });
+        }
+        return;
+      }
+      case "SteadyState": {
+        const power =
+          readNumber(segment, "Power") ??
+          readNumber(segment, "PowerLow") ??
+          readNumber(segment, "PowerHigh");
+        pending.push({
+          purpose: "work",
+          goal,
+          ...(power !== undefined && { alert: targetAlert(power) }),
+        });
+        return;
+      }
+      case "FreeRide":
+      case "MaxEffort":
+        if (kind === "MaxEffort") {
+          warnings.push({
+            path,
+            message: "MaxEffort has no power target in WorkoutKit",
+          });
+        }
+        pending.push({ purpose: "work", goal });
+        return;
+      default:
+        warnings.push({
+          path,
+          message: `Unsupported segment <${kind}> was skipped`,
+        });
+    }
+  });
+  flush();
+
+  if (blocks.length === 0) {
+    warnings.push({
+      path: "workout",
+      message: "No interval segments found; the workout has no blocks",
+    });
+  }
+
+  const name = findChild(root, "name")?.text;
+  return {
+    config: {
+      activityType: "cycling",
+      ...(name && { displayName: name }),
+      ...(warmup && { warmup }),
+      blocks,
+      ...(cooldown && { cooldown }),
+    },
+    warnings,
+  };
+}
+
+function formatFraction(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+type Warn = (path: string, message: string) => void;
+
+// Zwift targets a single power, so ranges become their midpoint (as a fraction of FTP).
+function powerMidpoint(
+  alert: PowerTargetAlert,
+  ftp: number,
+  path: string,
+  warn: Warn,
+): number {
+  const { min, max } = powerAlertPercentFtp(alert, ftp);
+  const midpoint = (min + max) / 200;
+  if (min !== max) {
+    warn(
+      `${path}.alert`,
+      `Power range ${formatFraction(min)}–${formatFraction(
+        max,
+      )}% FTP was collapsed to its midpoint (${formatFraction(
+        midpoint * 100,
+      )}% FTP)`,
+    );
+  }
+  return midpoint;
+}
+
+// A repeated work + recovery pair of time-based steps maps 1:1 onto `IntervalsT`.
+function toIntervalsT(
+  block: IntervalBlock,
+  ftp: number,
+  path: string,
+  warn: Warn,
+): string | null {
+  const [on, off] = block.steps;
+  if (
+    block.steps.length !== 2 ||
+    on.purpose !== "work" ||
+    off.purpose !== "recovery" ||
+    on.goal?.type !== "time" ||
+    off.goal?.type !== "time" ||
+    on.alert?.type !== "power"
+  ) {
+    return null;
+  }
+  const offAlert = off.alert;
+  if (offAlert && offAlert.type !== "power") {
+    return null;
+  }
+
+  const midpoint = (alert: PowerTargetAlert, stepIndex: number) =>
+    formatFraction(
+      powerMidpoint(alert, ftp, `${path}.steps[${stepIndex}]`, warn),
+    );
+  const attributes = [
+    `Repeat="${block.iterations ?? 1}"`,
+    `OnDuration="${toSeconds(on.goal.value, on.goal.unit)}"`,
+    `OffDuration="${toSeconds(off.goal.value, off.goal.unit)}"`,
+    `OnPower="${midpoint(on.alert, 0)}"`,
+    ...(offAlert ? [`OffPower="${midpoint(offAlert, 1)}"`] : []),
+  ];
+  return `<IntervalsT ${attributes.join(" ")}/>`;
+}
+
+/**
+ * Converts a `CustomWorkoutConfig` into a Zwift `.zwo` document.
+ *
+ * Power and cadence ranges are collapsed to their midpoint (Zwift targets a single value);
+ * `cadence` alerts become the `Cadence` attribute of a `FreeRide`, also for a warmup or cooldown
+ * without a power target. Collapsed ranges and steps that ZWO can't express (non-time goals,
+ * heart rate/pace/speed alerts) are reported in `warnings`, once per step even when a block is
+ * unrolled.
+ */
+export function exportZwo(
+  config: CustomWorkoutConfig,
+  options: ZwoExportOptions,
+): ZwoExportResult {
+  assertFtp(options.ftp);
+  const { ftp } = options;
+  const warnings: WorkoutFileWarning[] = [];
+  const segments: string[] = [];
+  const warned = new Set<string>();
+  const warn: Warn = (path, message) => {
+    const key = `${path}\n${message}`;
+    if (warned.has(key)) return;
+    warned.add(key);
+    warnings.push({ path, message });
+  };
+
+  if (config.activityType !== "cycling") {
+    warn(
+      "activityType",
+      `ZWO workouts are cycling workouts; "${config.activityType}" was exported as bike`,
+    );
+  }
+
+  const durationOf = (step: WorkoutStep, path: string): number | null => {
+    if (step.goal?.type === "time") {
+      return toSeconds(step.goal.value, step.goal.unit);
+    }
+    warn(
+      `${path}.goal`,
+      `${
+        step.goal?.type ?? "Missing"
+      } goal can't be expressed in ZWO; step skipped`,
+    );
+    return null;
+  };
+
+  const unsupportedAlert = (alert: WorkoutAlert | undefined, path: string) => {
+    if (alert && alert.type !== "power" && alert.type !== "cadence") {
+      warn(
+        `${path}.alert`,
+        `${alert.type} alert has no ZWO equivalent and was dropped`,
+      );
+    }
+  };
+
+  // Steps without a power target ride free, keeping a cadence target (collapsed like power).
+  const freeRide = (
+    seconds: number,
+    alert: WorkoutAlert | undefined,
+    path: string,
+  ): string => {
+    if (alert?.type !== "cadence") {
+      return `<FreeRide Duration="${seconds}"/>`;
+    }
+    const cadence = Math.round((alert.min + alert.max) / 2);
+    if (alert.min !== alert.max) {
+      warn(
+        `${path}.alert`,
+        `Cadence range ${alert.min}–${alert.max} rpm was collapsed to its midpoint (${cadence} rpm)`,
+      );
+    }
+    return `<FreeRide Duration="${seconds}" Cadence="${cadence}"/>`;
+  };
+
+  const steady = (step: WorkoutStep, path: string): string | null => {
+    const seconds = durationOf(step, path);
+    if (seconds === null) return null;
+    unsupportedAlert(step.alert, path);
+    const alert = step.alert;
+    if (alert?.type === "power") {
+      return `<SteadyState Duration="${seconds}" Power="${formatFraction(
+        powerMidpoint(alert, ftp, path, warn),
+      )}"/>`;
+    }
+    return freeRide(seconds, alert, path);
+  };
+
+  const ramp = (
+    tag: "Warmup" | "Cooldown",
+    step: WorkoutStep,
+    path: string,
+  ): string | null => {
+    const seconds = durationOf(step, path);
+    if (seconds === null) return null;
+    unsupportedAlert(step.alert, path);
+    if (step.alert?.type !== "power") {
+      return freeRide(seconds, step.alert, path);
+    }
+    // Warmups ramp up, cooldowns ramp down (Zwift's PowerLow is the starting power).
+    const { min, max } = powerAlertPercentFtp(step.alert, ftp);
+    const [start, end] = tag === "Warmup" ? [min, max] : [max, min];
+    return `<${tag} Duration="${seconds}" PowerLow="${formatFraction(
+      start / 100,
+    )}" PowerHigh="${formatFraction(end / 100)}"/>`;
+  };
+
+  const push = (segment: string | null) => {
+    if (segment) segments.push(segment);
+  };
+
+  if (config.warmup) {
+    push(ramp("Warmup", config.warmup, "warmup"));
+  }
+
+  config.blocks.forEach((block, blockIndex) => {
+    const path = `blocks[${blockIndex}]`;
+    const iterations = block.iterations ?? 1;
+    const intervals = toIntervalsT(block, ftp, path, warn);
+    if (intervals) {
+      segments.push(intervals);
+      return;
+    }
+
+    if (iterations > 1) {
+      warn(
+        path,
+        `Block repeated ${iterations} times was unrolled (only work/recovery pairs map to IntervalsT)`,
+      );
+    }
+    for (let i = 0; i < iterations; i++) {
+      block.steps.forEach((step, stepIndex) => {
+        push(steady(step, `${path}.steps[${stepIndex}]`));
+      });
+    }
+  });
+
+  if (config.cooldown) {
+    push(ramp("Cooldown", config.cooldown, "cooldown"));
+  }
+
+  const header = [
+    `    <author>${escapeXml(options.author ?? "")}</author>`,
+    `    <name>${escapeXml(config.displayName ?? "")}</name>`,
+    `    <description>${escapeXml(options.description ?? "")}</description>`,
+    "    <sportType>bike</sportType>",
+    "    <tags/>",
+  ];
+
+  const xml = [
+    "<workout_file>",
+    ...header,
+    "    <workout>",
+    ...segments.map((segment) => `        ${segment}`),
+    "    </workout>",
+    "</workout_file>",
+    "",
+  ].join("\n");
+
+  return { xml, warnings };
+}